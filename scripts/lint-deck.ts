@@ -0,0 +1,118 @@
+// Checks deck JSON files for problems that only show up on stage: missing
+// images, unparseable YouTube links, typo'd keys, empty notes and so on.
+//
+//   npm run lint-deck                         lint every deck under data/
+//   npm run lint-deck -- data/foo/foo.json    lint specific files
+//   npm run lint-deck -- --json               machine-readable output
+//
+// Exits with 1 when any deck has errors, so it can gate deck commits.
+import fs from "node:fs";
+import path from "node:path";
+import { createAssetResolver } from "../src/lib/assets";
+import { lintDeck, type LintIssue } from "../src/lib/deckLint";
+
+const DATA_DIR = path.resolve("data");
+const PUBLIC_DIR = path.resolve("public");
+const EXAMPLES_DIR = path.join(DATA_DIR, "examples");
+
+type DeckReport = {
+  file: string;
+  errorCount: number;
+  warningCount: number;
+  issues: LintIssue[];
+};
+
+function listFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir).map((name) => path.join(dir, name));
+}
+
+// Mirrors the deck registry: data/knowledge.json plus data/examples/*/*.json
+function discoverDecks(): string[] {
+  const examples = listFiles(EXAMPLES_DIR)
+    .filter((dir) => fs.statSync(dir).isDirectory())
+    .flatMap((dir) => listFiles(dir).filter((file) => file.endsWith(".json")))
+    .sort();
+  return [path.join(DATA_DIR, "knowledge.json"), ...examples];
+}
+
+// Same lookup the app does at runtime, except that bundled files resolve to
+// their location on disk and /public paths to files in public/.
+function lintFile(file: string): DeckReport {
+  const relativeToData = path.relative(DATA_DIR, path.dirname(file));
+  const insideData = !relativeToData.startsWith("..") && !path.isAbsolute(relativeToData);
+  const folder = insideData ? relativeToData.split(path.sep).join("/") || null : null;
+
+  const bundledUrls = new Map<string, string>();
+  const bundleDirs = insideData ? listFiles(EXAMPLES_DIR) : [path.dirname(file)];
+  bundleDirs
+    .flatMap(listFiles)
+    .filter((asset) => fs.statSync(asset).isFile())
+    .forEach((asset) => {
+      const key = insideData
+        ? path.relative(DATA_DIR, asset).split(path.sep).join("/")
+        : path.basename(asset);
+      bundledUrls.set(key, asset);
+    });
+
+  const resolver = createAssetResolver({ folder, bundledUrls, baseUrl: PUBLIC_DIR });
+  const displayName = path.relative(process.cwd(), file);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    const issue: LintIssue = {
+      severity: "error",
+      rule: "schema",
+      path: "(root)",
+      message: `Cannot read deck: ${(error as Error).message}`,
+    };
+    return { file: displayName, errorCount: 1, warningCount: 0, issues: [issue] };
+  }
+
+  const issues = lintDeck(raw, { resolver, assetExists: (url) => fs.existsSync(url) });
+  return {
+    file: displayName,
+    errorCount: issues.filter((issue) => issue.severity === "error").length,
+    warningCount: issues.filter((issue) => issue.severity === "warning").length,
+    issues,
+  };
+}
+
+function printHuman(reports: DeckReport[]) {
+  for (const report of reports) {
+    console.log(`\n${report.file}`);
+    if (report.issues.length === 0) {
+      console.log("  ✓ no problems");
+      continue;
+    }
+    for (const issue of report.issues) {
+      const node = issue.nodeLabel ? ` (node "${issue.nodeLabel}")` : "";
+      console.log(`  ${issue.severity.padEnd(7)} ${issue.path}${node}`);
+      console.log(`          ${issue.message}  [${issue.rule}]`);
+    }
+  }
+
+  const errors = reports.reduce((sum, report) => sum + report.errorCount, 0);
+  const warnings = reports.reduce((sum, report) => sum + report.warningCount, 0);
+  console.log(`\n${errors > 0 ? "✖" : "✓"} ${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"} in ${reports.length} deck${reports.length === 1 ? "" : "s"}`);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes("--json");
+  const files = args.filter((arg) => !arg.startsWith("--")).map((arg) => path.resolve(arg));
+
+  const reports = (files.length > 0 ? files : discoverDecks()).map(lintFile);
+
+  if (json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    printHuman(reports);
+  }
+
+  process.exitCode = reports.some((report) => report.errorCount > 0) ? 1 : 0;
+}
+
+main();
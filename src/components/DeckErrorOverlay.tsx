@@ -0,0 +1,47 @@
+import { AlertTriangle } from "lucide-react";
+import type { DeckIssue } from "@/lib/deckSchema";
+
+export function DeckErrorOverlay({
+  issues,
+  source,
+}: {
+  issues: DeckIssue[];
+  source?: string;
+}) {
+  return (
+    <div
+      role="alert"
+      className="fixed inset-0 z-[200] flex items-center justify-center bg-background/95 backdrop-blur-sm p-6"
+    >
+      <div className="w-full max-w-3xl max-h-full flex flex-col bg-card border border-destructive rounded-lg shadow-lg">
+        <div className="flex items-start gap-3 p-4 border-b border-border">
+          <AlertTriangle className="h-6 w-6 text-destructive shrink-0" />
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">
+              This deck could not be loaded
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              {issues.length} problem{issues.length === 1 ? "" : "s"} found
+              {source ? ` in ${source}` : ""}. Fix the entries below and reload the page.
+            </p>
+          </div>
+        </div>
+        <ol className="flex-1 overflow-auto p-4 space-y-3">
+          {issues.map((issue, index) => (
+            <li key={`${issue.path}-${index}`} className="bg-muted/50 p-3 rounded-lg">
+              <code className="block text-sm font-mono text-destructive break-all">
+                {issue.path}
+              </code>
+              <div className="text-sm text-foreground mt-1">{issue.message}</div>
+              {issue.nodeLabel && (
+                <div className="text-xs text-muted-foreground mt-1">
+                  in node "{issue.nodeLabel}"
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
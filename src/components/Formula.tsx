@@ -0,0 +1,24 @@
+import "katex/dist/katex.min.css";
+import { renderMath } from "@/lib/math";
+import { cn } from "@/lib/utils";
+
+// A LaTeX formula typeset by KaTeX. One that does not parse is shown as its
+// source, with the reason on hover, rather than breaking the text around it.
+export function Formula({ latex, display = false, className }: { latex: string; display?: boolean; className?: string }) {
+  const { html, error } = renderMath(latex, display);
+
+  if (error !== null) {
+    return (
+      <code title={error} className={cn("rounded bg-destructive/10 px-1 font-mono text-[0.9em] text-destructive", display && "block w-fit", className)}>
+        {latex}
+      </code>
+    );
+  }
+
+  return (
+    <span
+      className={cn(display && "block overflow-x-auto overflow-y-hidden", className)}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -1,10 +1,14 @@
-import { useState, useEffect, useRef, useMemo } from "react";
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Canvas, useFrame, useThree } from "@react-three/fiber";
 import { OrbitControls, Line, Html } from "@react-three/drei";
 import * as THREE from "three";
-import { createPortal } from "react-dom";
-import type { KnowledgeNode, Widget } from "../types"; // Adjusted path to match the correct location
+import type { Widget } from "../types"; // Adjusted path to match the correct location
 import { useFocus } from '../contexts/FocusContext';
+import { useAssets } from '../contexts/AssetContext';
+import { useLayout } from '../contexts/LayoutContext';
+import { useReveal } from '../contexts/RevealContext';
+import { useSearch } from '../contexts/SearchContext';
 import { useTheme } from "next-themes";
 import { 
   Drawer,
@@ -15,9 +19,21 @@ import {
 } from "../components/ui/drawer";
 import { Switch } from "../components/ui/switch";
 import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
 import { isValidImageUrl } from "../lib/utils";
-import { Volume2, VolumeX } from "lucide-react";
+import { getWidgetRenderer } from "./widgets";
+import { Markdown } from "./Markdown";
+import { hashString } from "../lib/random";
+import { ChevronDown, ChevronsDownUp, ChevronsUpDown, ChevronUp, Pause, Play, RotateCcw, SkipForward, Square, Volume2, VolumeX, X } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { layoutEngines, normalizeWeight, type LayoutEngineId, type Node3D, type Vec3 } from "../lib/layouts";
+import { readCameraPose, readTalkLocation, writeCameraPose } from "../lib/deepLink";
+import { DEFAULT_TOUR_DWELL_SECONDS, useNarratedTour } from "../hooks/use-narrated-tour";
+import { useSpeech } from "../contexts/SpeechContext";
+import { SpeechSettingsPanel } from "./SpeechSettingsPanel";
+import { NarrationScrubber } from "./NarrationScrubber";
+import { stopSpeaking } from "../lib/speech";
+import { REVEAL_GROW_MS, revealModeLabels, revealModes, type RevealMode } from "../lib/reveal";
 
 // Resolve CSS HSL tokens like --primary into a usable CSS color string
 function useCssHsl(varName: string, fallback: string = "hsl(220 14% 96%)") {
@@ -32,717 +48,10 @@ function useCssHsl(varName: string, fallback: string = "hsl(220 14% 96%)") {
   return color;
 }
 
-
-
-type Node3D = {
-  id: string;
-  label: string;
-  weight?: number;
-  position: [number, number, number];
-  widgets?: Widget[];
-  prose?: string;
-};
-
-type Edge3D = { source: string; target: string };
-
-function normalizeWeight(w?: number) {
-  if (w === undefined || Number.isNaN(w)) return 0.5;
-  const clamped = Math.max(1, Math.min(100, w));
-  return (clamped - 1) / 99; // 0..1
-}
-
-function build3DLayout(root: KnowledgeNode) {
-  const nodes: Node3D[] = [];
-  const edges: Edge3D[] = [];
-  let idCounter = 0;
-
-  // Improved spacing parameters to prevent overlaps (halved for shorter links)
-  const layerDistance = 7.5; // Half the distance between depth levels
-  const minNodeDistance = 2; // Half the minimum distance between any two nodes
-  const baseRadius = 3; // Half the base radius for first level
-  
-  function countNodesAtDepth(node: KnowledgeNode, targetDepth: number, currentDepth = 0): number {
-    if (currentDepth === targetDepth) return 1;
-    if (!node.children || currentDepth >= targetDepth) return 0;
-    
-    return node.children.reduce((sum, child) => 
-      sum + countNodesAtDepth(child, targetDepth, currentDepth + 1), 0);
-  }
-  
-  function calculateOptimalRadius(nodeCount: number, minDistance: number, averageNodeSize = 1): number {
-    if (nodeCount <= 1) return 0;
-    // Calculate radius needed to fit nodeCount nodes with minDistance between them
-    // Scale by average node size - smaller nodes get shorter links
-    const sizeScale = 0.5 + (averageNodeSize * 0.8); // Range from 0.5x to 1.3x
-    const circumference = nodeCount * minDistance * 2 * sizeScale;
-    return Math.max(baseRadius * sizeScale, circumference / (2 * Math.PI));
-  }
-  
-  function traverse(n: KnowledgeNode, depth: number, parentId?: string, parentPos: [number, number, number] = [0, 0, 0], siblingIndex = 0, totalSiblings = 1) {
-    const id = `n3-${idCounter++}`;
-    const z = depth * layerDistance;
-    
-    let x = 0, y = 0;
-    
-    if (depth === 0) {
-      // Root node at origin
-      x = 0;
-      y = 0;
-    } else {
-      // Calculate position based on sibling arrangement
-      if (totalSiblings === 1) {
-        // Single child, place directly below parent with slight offset to avoid exact overlap
-        x = parentPos[0] + (Math.random() - 0.5) * 0.5; // Small random offset
-        y = parentPos[1] + (Math.random() - 0.5) * 0.5;
-      } else {
-        // Multiple siblings, arrange in circle around parent
-        // Calculate average node size for this group (including parent and siblings)
-        const parentWeight = normalizeWeight(n.weight);
-        const siblingWeights = (n.children || []).map(child => normalizeWeight(child.weight));
-        const averageSize = ([parentWeight, ...siblingWeights].reduce((sum, w) => sum + w, 0)) / (siblingWeights.length + 1);
-        
-        const radius = calculateOptimalRadius(totalSiblings, minNodeDistance, 0.2 * averageSize * normalizeWeight(n.weight) * normalizeWeight(n.weight));
-        const angle = (siblingIndex / totalSiblings) * Math.PI * 15; // Wider spread 
-        x = parentPos[0] + Math.cos(angle) * radius;
-        y = parentPos[1] + Math.sin(angle) * radius;
-      }
-    }
-
-    const position: [number, number, number] = [x, y, z];
-    
-    // Check for collisions with existing nodes and adjust if necessary
-    let finalPosition = position;
-    let attempts = 0;
-    const maxAttempts = 20;
-    
-    while (attempts < maxAttempts) {
-      let collision = false;
-      for (const existingNode of nodes) {
-        const dx = finalPosition[0] - existingNode.position[0];
-        const dy = finalPosition[1] - existingNode.position[1];
-        const dz = finalPosition[2] - existingNode.position[2];
-        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
-        
-        if (distance < minNodeDistance) {
-          collision = true;
-          // Move away from collision
-          const moveDistance = minNodeDistance - distance + 1;
-          const moveAngle = Math.atan2(dy, dx);
-          finalPosition = [
-            finalPosition[0] + Math.cos(moveAngle) * moveDistance,
-            finalPosition[1] + Math.sin(moveAngle) * moveDistance,
-            finalPosition[2]
-          ];
-          break;
-        }
-      }
-      
-      if (!collision) break;
-      attempts++;
-    }
-
-    nodes.push({ id, label: n.node, weight: n.weight, position: finalPosition, widgets: n.widgets, prose: (n as any).prose });
-
-    if (parentId) edges.push({ source: parentId, target: id });
-
-    const children = n.children ?? [];
-    const childCount = children.length;
-    
-    if (childCount > 0) {
-      for (let i = 0; i < childCount; i++) {
-        traverse(children[i], depth + 1, id, finalPosition, i, childCount);
-      }
-    }
-
-    return id;
-  }
-
-  traverse(root, 0);
-
-  return { nodes, edges };
-}
-
-// Debug indicator to show positions - make more visible
-function DebugMarker({ position }: { position: [number, number, number] }) {
-  return (
-    <mesh position={position} scale={[0.3, 0.3, 0.3]}>
-      <sphereGeometry />
-      <meshBasicMaterial color="lime" />
-    </mesh>
-  );
-}
-
-// YouTube Preview component
-function YouTubePreview({ 
-  url, 
-  position, 
-  index, 
-  notes,
-  widget,
-  onWidgetClick 
-}: { 
-  url: string; 
-  position: [number, number, number]; 
-  index: number;
-  notes?: string;
-  widget: Widget;
-  onWidgetClick: (widget: Widget) => void;
-}) {
-  const previewRef = useRef<HTMLDivElement>(null);
-  const [isVisible, setIsVisible] = useState(false);
-  
-  // Use the position passed from parent
-  const previewPos: [number, number, number] = position;
-  
-  // Get YouTube video ID
-  const getYouTubeVideoId = (url: string) => {
-    const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|\&v=)([^#\&\?]*).*/;
-    const match = url.match(regExp);
-    return (match && match[2].length === 11) ? match[2] : null;
-  };
-  
-  const videoId = getYouTubeVideoId(url);
-  const thumbnailUrl = videoId ? `https://img.youtube.com/vi/${videoId}/mqdefault.jpg` : '';
-  
-  // Handle visibility based on camera position
-  const { camera } = useThree();
-  useFrame(() => {
-    if (!previewRef.current) return;
-    
-    // Calculate distance to camera
-    const distance = new THREE.Vector3(...previewPos).distanceTo(camera.position);
-    
-    // Only show previews that are reasonably close to the camera
-    if (distance < 30) {
-      previewRef.current.style.opacity = "1";
-      setIsVisible(true);
-    } else {
-      previewRef.current.style.opacity = "0";
-      setIsVisible(false);
-    }
-  });
-  
-  // Open side panel view  
-  const openSidePanel = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    console.log("Opening side panel for YouTube video:", url);
-    onWidgetClick(widget);
-  };
-  
-  return (
-    <>
-      {/* Debug sphere to see where the preview should be */}
-      <DebugMarker position={previewPos} />
-      
-      {/* The YouTube preview */}
-      <group position={previewPos}>
-        <Html
-          center
-          transform
-          occlude={false}
-          distanceFactor={10}
-          position={[0, 0, 0]}
-          style={{ 
-            width: "60px", 
-            height: "45px", // 4:3 aspect ratio for YouTube thumbnails
-            transform: "rotateY(180deg)"
-          }}
-        >
-          <div 
-            ref={previewRef}
-            style={{
-              width: "100%",
-              height: "100%",
-              position: "relative",
-              cursor: "pointer",
-              borderRadius: "5px",
-              opacity: isVisible ? 1 : 0,
-              transition: "opacity 0.3s",
-              overflow: "hidden",
-              border: "2px solid #ff0000", // YouTube red border
-              boxShadow: "0 0 10px rgba(255,0,0,0.7)",
-              transform: "scaleX(-1)", // Fix inversion
-              backgroundColor: "#000"
-            }}
-            onClick={openSidePanel}
-          >
-            {thumbnailUrl ? (
-              <>
-                <img 
-                  src={thumbnailUrl}
-                  alt="YouTube thumbnail"
-                  style={{
-                    width: "100%",
-                    height: "100%",
-                    objectFit: "cover",
-                    transform: "scaleX(-1)" // Fix inversion
-                  }}
-                />
-                {/* Play button overlay */}
-                <div style={{
-                  position: "absolute",
-                  top: "50%",
-                  left: "50%",
-                  transform: "translate(-50%, -50%)",
-                  width: "20px",
-                  height: "20px",
-                  backgroundColor: "rgba(255,0,0,0.8)",
-                  borderRadius: "50%",
-                  display: "flex",
-                  alignItems: "center",
-                  justifyContent: "center",
-                  color: "white",
-                  fontSize: "8px",
-                  fontWeight: "bold"
-                }}>
-                  ▶
-                </div>
-              </>
-            ) : (
-              <div style={{
-                width: "100%",
-                height: "100%",
-                display: "flex",
-                alignItems: "center",
-                justifyContent: "center",
-                backgroundColor: "#ff0000",
-                color: "white",
-                fontSize: "8px",
-                textAlign: "center"
-              }}>
-                YouTube<br/>Video
-              </div>
-            )}
-          </div>
-        </Html>
-      </group>
-    </>
-  );
-}
-
-// Website Preview component for URL widgets
-function WebsitePreview({ 
-  url, 
-  position, 
-  index, 
-  notes,
-  widget,
-  onWidgetClick 
-}: { 
-  url: string; 
-  position: [number, number, number]; 
-  index: number;
-  notes?: string;
-  widget: Widget;
-  onWidgetClick: (widget: Widget) => void;
-}) {
-  const [previewImageUrl, setPreviewImageUrl] = useState<string | null>(null);
-  const imageRef = useRef<HTMLImageElement>(null);
-  const [isVisible, setIsVisible] = useState(false);
-  const [imageError, setImageError] = useState(false);
-  
-  // Use the position passed from parent
-  const imagePos: [number, number, number] = position;
-  
-  // Get preview image from widget's preview attribute
-  useEffect(() => {
-    if (widget.preview) {
-      // Resolve preview image path
-      const imagePath = widget.preview.startsWith('http') 
-        ? widget.preview 
-        : widget.preview.startsWith('/') 
-          ? widget.preview 
-          : `/data/${widget.preview}`;
-      setPreviewImageUrl(imagePath);
-    }
-  }, [widget.preview]);
-  
-  // Handle image loading
-  const handleImageLoad = () => {
-    console.log(`✅ Website preview loaded: ${url}`);
-    setIsVisible(true);
-    setImageError(false);
-  };
-  
-  const handleImageError = () => {
-    console.error(`❌ Failed to load website preview: ${url}`);
-    setImageError(true);
-  };
-  
-  // Handle visibility based on camera position
-  const { camera } = useThree();
-  useFrame(() => {
-    if (!imageRef.current) return;
-    
-    // Calculate distance to camera
-    const distance = new THREE.Vector3(...imagePos).distanceTo(camera.position);
-    
-    // Show images that are reasonably close to the camera - increased range for better visibility
-    if (distance < 50) {
-      imageRef.current.style.opacity = "1";
-      // Also ensure it's initially visible if this is the first frame
-      if (!isVisible) {
-        setIsVisible(true);
-      }
-    } else {
-      imageRef.current.style.opacity = "0.3"; // Keep slightly visible even at distance
-    }
-  });
-  
-  // Open sidebar when clicked
-  const openSidebar = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    onWidgetClick(widget);
-  };
-  
-  return (
-    <>
-      {/* Website Screenshot Preview */}
-      <Html
-        key={`website-${index}`}
-        position={imagePos}
-        transform
-        occlude
-        sprite
-      >
-        <div 
-          ref={imageRef}
-          className="website-preview-container"
-          style={{
-            width: '120px',
-            height: '80px',
-            cursor: 'pointer',
-            opacity: 0,
-            transition: 'opacity 0.3s ease',
-            borderRadius: '8px',
-            overflow: 'hidden',
-            border: '2px solid rgba(255, 255, 255, 0.8)',
-            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
-            background: 'rgba(255, 255, 255, 0.95)',
-          }}
-          onClick={openSidebar}
-        >
-          {previewImageUrl && !imageError ? (
-            <img
-              src={previewImageUrl}
-              alt="Website preview"
-              style={{
-                width: '100%',
-                height: '100%',
-                objectFit: 'cover',
-                borderRadius: '6px',
-              }}
-              onLoad={handleImageLoad}
-              onError={handleImageError}
-            />
-          ) : (
-            <div style={{
-              display: 'flex',
-              flexDirection: 'column',
-              alignItems: 'center',
-              justifyContent: 'center',
-              height: '100%',
-              background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
-              color: 'white',
-              fontSize: '11px',
-              textAlign: 'center',
-              padding: '8px',
-            }}>
-              <div style={{ fontSize: '24px', marginBottom: '6px' }}>🌐</div>
-              <div style={{ fontWeight: 'bold', marginBottom: '2px' }}>Website</div>
-              <div style={{ fontSize: '9px', opacity: 0.9, lineHeight: '1.2' }}>
-                {url.length > 25 ? url.substring(8, 25) + '...' : url.replace(/^https?:\/\//, '')}
-              </div>
-              <div style={{ fontSize: '8px', opacity: 0.7, marginTop: '4px' }}>Click to open</div>
-            </div>
-          )}
-          
-          {/* Hover overlay */}
-          <div 
-            style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              right: 0,
-              bottom: 0,
-              background: 'rgba(0, 0, 0, 0.7)',
-              color: 'white',
-              display: 'flex',
-              flexDirection: 'column',
-              alignItems: 'center',
-              justifyContent: 'center',
-              opacity: 0,
-              transition: 'opacity 0.2s ease',
-              fontSize: '10px',
-              textAlign: 'center',
-              padding: '8px',
-              borderRadius: '6px',
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.opacity = '1';
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.opacity = '0';
-            }}
-          >
-            <div style={{ fontSize: '14px', marginBottom: '4px' }}>🔗</div>
-            <div>Open Website</div>
-            {notes && (
-              <div style={{ fontSize: '8px', marginTop: '4px', opacity: 0.8 }}>
-                {notes.length > 40 ? `${notes.substring(0, 40)}...` : notes}
-              </div>
-            )}
-          </div>
-        </div>
-      </Html>
-    </>
-  );
-}
-
-// Completely reworked Image Preview component
-function ImagePreview({ 
-  src, 
-  position, 
-  index, 
-  notes,
-  widget,
-  onWidgetClick 
-}: { 
-  src: string; 
-  position: [number, number, number]; 
-  index: number;
-  notes?: string;
-  widget: Widget;
-  onWidgetClick: (widget: Widget) => void;
-}) {
-  const [fullscreenView, setFullscreenView] = useState(false);
-  const imageRef = useRef<HTMLImageElement>(null);
-  const [isVisible, setIsVisible] = useState(false);
-  const [imageError, setImageError] = useState(false);
-  
-  // Use the position passed from parent (already calculated symmetrically)
-  const imagePos: [number, number, number] = position;
-  
-  // Resolve image path from data directory
-  const imagePath = useMemo(() => {
-    // If it's a URL, use it directly
-    if (src.startsWith('http')) {
-      return src;
-    }
-    
-    // If it starts with slash, it's from the root
-    if (src.startsWith('/')) {
-      return src;
-    }
-    
-    // Otherwise, it's relative to the data directory
-    return `/data/${src}`;
-  }, [src]);
-  
- 
-  
-  // Handle image loading
-  const handleImageLoad = () => {
-    console.log(`✅ Image loaded successfully: ${imagePath}`);
-    setIsVisible(true);
-    setImageError(false);
-  };
-  
-  const handleImageError = () => {
-    console.error(`❌ Failed to load image: ${imagePath}`);
-    setImageError(true);
-    // Still show a placeholder even on error
-    setIsVisible(true);
-  };
-  
-  // Handle visibility based on camera position
-  const { camera } = useThree();
-  useFrame(() => {
-    if (!imageRef.current) return;
-    
-    // Calculate distance to camera
-    const distance = new THREE.Vector3(...imagePos).distanceTo(camera.position);
-    
-    // Always show images when reasonably close - increased range and always visible when loaded
-    if (distance < 50) {
-      imageRef.current.style.opacity = "1";
-      if (!isVisible && !imageError) {
-        setIsVisible(true); // Force visibility
-      }
-    } else {
-      imageRef.current.style.opacity = "0.5"; // Still partially visible at distance
-    }
-  });
-  
-  // Open side panel view  
-  const openSidePanel = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    console.log("Opening side panel for:", imagePath);
-    // Pass the entire widget object to the handler
-    onWidgetClick(widget);
-  };
-  
-  // Close fullscreen view
-  const closeFullscreen = () => {
-    setFullscreenView(false);
-  };
-  
-  return (
-    <>
-      {/* Debug sphere to see where the image should be */}
-      <DebugMarker position={imagePos} />
-      
-      {/* The actual image */}
-      <group position={imagePos}>
-        <Html
-          center
-          transform
-          occlude={false}
-          distanceFactor={10}
-          position={[0, 0, 0]}
-          style={{ 
-            width: "60px", 
-            height: "60px",
-            // Try different approach for the container
-            transform: "rotateY(180deg)"
-          }}
-        >
-          {imageError ? (
-            <div 
-              style={{
-                width: "100%",
-                height: "100%",
-                position: "relative",
-                backgroundColor: "rgba(255,0,0,0.5)",
-                display: "flex",
-                alignItems: "center",
-                justifyContent: "center",
-                borderRadius: "5px",
-                border: "2px solid white",
-                boxShadow: "0 0 10px rgba(0,0,0,0.7)",
-                fontSize: "10px",
-                color: "white",
-                textAlign: "center",
-                cursor: "pointer"
-              }}
-              onClick={openSidePanel}
-            >
-              Image<br/>Error
-            </div>
-          ) : (
-            <div 
-              ref={imageRef}
-              style={{
-                width: "100%",
-                height: "100%",
-                position: "relative",
-                cursor: "pointer",
-                borderRadius: "5px",
-                opacity: 1, // Always visible - remove conditional opacity
-                transition: "opacity 0.3s",
-                overflow: "hidden",
-                border: "2px solid cyan", // More visible border color
-                boxShadow: "0 0 15px rgba(0,255,255,0.7)", // Cyan glow
-                transform: "scaleX(-1)",
-                backgroundColor: imageError ? "rgba(255,0,0,0.3)" : "rgba(255,255,255,0.1)"
-              }}
-              onClick={openSidePanel}
-            >
-              <img 
-                src={imagePath}
-                alt="Preview"
-                onLoad={handleImageLoad}
-                onError={handleImageError}
-                style={{
-                  width: "100%",
-                  height: "100%",
-                  objectFit: "cover",
-                  // Fix inversion
-                  transform: "scaleX(-1)"
-                }}
-              />
-            </div>
-          )}
-        </Html>
-      </group>
-      
-      {/* Fullscreen view using portal */}
-      {fullscreenView && createPortal(
-        <div 
-          style={{
-            position: "fixed",
-            top: 0,
-            left: 0,
-            width: "100%",
-            height: "100%",
-            backgroundColor: "rgba(0,0,0,0.9)",
-            display: "flex",
-            alignItems: "center",
-            justifyContent: "center",
-            zIndex: 9999,
-            cursor: "pointer",
-          }}
-          onClick={closeFullscreen}
-        >
-          <div 
-            style={{
-              maxWidth: "90vw",
-              maxHeight: "90vh",
-              position: "relative",
-            }}
-            onClick={e => e.stopPropagation()}
-          >
-            <img 
-              src={imagePath}
-              alt="Fullscreen view"
-              style={{
-                maxWidth: "100%",
-                maxHeight: "90vh",
-                boxShadow: "0 0 30px rgba(0,0,0,0.8)"
-              }}
-            />
-            <button
-              style={{
-                position: "absolute",
-                top: "-40px",
-                right: "0",
-                background: "rgba(255,255,255,0.2)",
-                color: "white",
-                border: "none",
-                padding: "8px 16px",
-                borderRadius: "4px",
-                cursor: "pointer"
-              }}
-              onClick={closeFullscreen}
-            >
-              Close
-            </button>
-            <div style={{
-              marginTop: "10px",
-              color: "white",
-              textAlign: "center",
-              maxWidth: "100%",
-              overflow: "hidden",
-              textOverflow: "ellipsis",
-              whiteSpace: "nowrap"
-            }}>
-              {src}
-            </div>
-          </div>
-        </div>,
-        document.body
-      )}
-    </>
-  );
-}
-
 // Generate a consistent random 3D treasure icon for each node based on node ID
 function getNodeGeometry(nodeId: string) {
   // Use node ID to generate consistent random choice
-  const hash = nodeId.split('').reduce((a, b) => {
-    a = ((a << 5) - a) + b.charCodeAt(0);
-    return a & a;
-  }, 0);
+  const hash = hashString(nodeId);
   
   const treasureIndex = Math.abs(hash) % 20;
   
@@ -818,7 +127,13 @@ function NodeMesh({
   onWidgetClick,
   showOnlyFocusedWidgets = false,
   focusedNodeId,
-  sidePanelOpen = false
+  sidePanelOpen = false,
+  hiddenCount = 0,
+  onToggleCollapse,
+  position = node.position,
+  grow = 1,
+  ghost = false,
+  searchHighlight = null
 }: { 
   node: Node3D; 
   onClick: (id: string) => void;
@@ -827,16 +142,26 @@ function NodeMesh({
   showOnlyFocusedWidgets?: boolean;
   focusedNodeId?: string | null;
   sidePanelOpen?: boolean;
+  hiddenCount?: number;             // descendants hidden because this node is collapsed
+  onToggleCollapse?: () => void;
+  position?: Vec3;                  // where to draw it while growing out of its parent
+  grow?: number;                    // 0..1 while being revealed
+  ghost?: boolean;                  // not reached yet in progressive reveal
+  searchHighlight?: 'match' | 'dim' | null;
 }) {
   const primary = useCssHsl("--primary", "hsl(210 100% 70%)");
   const ring = useCssHsl("--ring", "hsl(262 90% 66%)");
   const focusColor = "hsl(210 80% 90%)"; // Very light blue for focused nodes
   const focusEmissive = "hsl(210 70% 85%)"; // Light blue for glow effect
   const textColor = useCssHsl("--foreground", "hsl(222 47% 11%)");
+  const searchGlow = "hsl(48 100% 55%)"; // Yellow, like search matches in the 2D tree
+  const isSearchMatch = searchHighlight === 'match';
+  const isDimmed = searchHighlight === 'dim' && !isFocused;
+  const { resolveAsset } = useAssets();
   const weightN = normalizeWeight(node.weight);
-  const depth = Math.max(0, node.position[2] / 6);
+  const depth = node.depth * 1.25; // same shrink per level the classic layout had
   const size = 0.35 + weightN * 0.6; // base by weight (heavier = larger)
-  const scale = size / (1 + depth * 0.25); // smaller with distance
+  const scale = (size / (1 + depth * 0.25)) * grow; // smaller with distance
   
   // Get the 3D geometry for this node
   const nodeShape = useMemo(() => getNodeGeometry(node.id), [node.id]);
@@ -859,55 +184,17 @@ function NodeMesh({
     }
   }, [node]);
   
-  // Helper function to detect YouTube URLs
-  const isYouTubeUrl = (url: string) => {
-    return url.includes('youtube.com/watch') || 
-           url.includes('youtu.be/') || 
-           url.includes('youtube.com/embed/') ||
-           url.includes('youtube.com/v/');
-  };
-
-  // Helper function to get YouTube video ID
-  const getYouTubeVideoId = (url: string) => {
-    const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|\&v=)([^#\&\?]*).*/;
-    const match = url.match(regExp);
-    return (match && match[2].length === 11) ? match[2] : null;
-  };
-
-  // Filter widgets for image files (handle both local files and URLs)
-  const imageExtensions = ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp'];
-  const imageWidgets = node.widgets?.filter(widget => {
-    if (!widget) return false;
-    
-    // Extract the name from the widget object - widgets are now always objects
-    const widgetName = widget.name;
-    
-    if (!widgetName) return false;
-    
-    // Check if it's a URL with image extension or just a local image file
-    if (widgetName.startsWith('http')) {
-      return imageExtensions.some(ext => widgetName.toLowerCase().includes(ext));
-    }
-    return imageExtensions.some(ext => widgetName.toLowerCase().endsWith(ext));
-  }) || [];
-
-  // Filter widgets for YouTube videos
-  const youtubeWidgets = node.widgets?.filter(widget => {
-    if (!widget) return false;
-    const widgetName = widget.name;
-    if (!widgetName) return false;
-    return isYouTubeUrl(widgetName);
-  }) || [];
-  
-  const allWidgets = [...imageWidgets, ...youtubeWidgets];
+  // Every widget type has a preview (see components/widgets)
+  const allWidgets = node.widgets ?? [];
   
   // Determine if widgets should be visible
-  const shouldShowWidgets = !showOnlyFocusedWidgets || (showOnlyFocusedWidgets && node.id === focusedNodeId);
+  const shouldShowWidgets = !ghost && (!showOnlyFocusedWidgets || (showOnlyFocusedWidgets && node.id === focusedNodeId));
   
   return (
     <group 
-      position={node.position} 
+      position={position} 
       onClick={(e) => { e.stopPropagation(); onClick(node.id); }}
+      onDoubleClick={onToggleCollapse && ((e) => { e.stopPropagation(); onToggleCollapse(); })}
       scale={[pulseScale, pulseScale, pulseScale]}
     >
       {/* Main node with random 3D geometry or image texture */}
@@ -921,13 +208,13 @@ function NodeMesh({
         {isValidImageUrl(node.label) ? (
           <meshStandardMaterial 
             transparent
-            opacity={isFocused ? 1.0 : 0.9}
+            opacity={ghost ? 0.15 : isDimmed ? 0.2 : isFocused ? 1.0 : 0.9}
             emissive={isFocused ? "hsl(220 100% 20%)" : "hsl(0 0% 0%)"}
             emissiveIntensity={isFocused ? 0.3 : 0.0}
           >
             <primitive 
               object={(() => {
-                const texture = new THREE.TextureLoader().load(node.label);
+                const texture = new THREE.TextureLoader().load(resolveAsset(node.label));
                 texture.flipY = false;
                 return texture;
               })()} 
@@ -937,10 +224,12 @@ function NodeMesh({
         ) : (
           <meshStandardMaterial 
             color={isFocused ? focusColor : primary} 
-            emissive={isFocused ? "hsl(220 100% 50%)" : ring}
-            emissiveIntensity={isFocused ? 1.2 : 0.15} 
+            emissive={isFocused ? "hsl(220 100% 50%)" : isSearchMatch ? searchGlow : ring}
+            emissiveIntensity={isFocused ? 1.2 : isSearchMatch ? 0.9 : 0.15} 
             metalness={isFocused ? 0.3 : 0.1} 
             roughness={isFocused ? 0.2 : 0.4} 
+            transparent={ghost || isDimmed}
+            opacity={ghost ? 0.15 : isDimmed ? 0.2 : 1}
           />
         )}
       </mesh>
@@ -957,8 +246,22 @@ function NodeMesh({
           />
         </mesh>
       )}
-      <Html center distanceFactor={6} style={{ pointerEvents: "none" }}>
+
+      {/* Yellow halo for search matches */}
+      {isSearchMatch && !isFocused && (
+        <mesh scale={[scale * 1.6, scale * 1.6, scale * 1.6]}>
+          <sphereGeometry args={[1, 16, 16]} />
+          <meshBasicMaterial 
+            color={searchGlow}
+            transparent
+            opacity={0.35}
+            side={2} // DoubleSide
+          />
+        </mesh>
+      )}
+      {!ghost && grow === 1 && <Html center distanceFactor={6} style={{ pointerEvents: "none" }}>
         <div style={{
+          opacity: isDimmed ? 0.35 : 1,
           background: isFocused ? "rgba(30, 144, 255, 0.8)" : "hsl(var(--card) / 0.8)",
           color: isFocused ? "white" : textColor,
           border: isFocused ? "1px solid rgba(135, 206, 250, 0.8)" : "1px solid hsl(var(--border))",
@@ -971,7 +274,30 @@ function NodeMesh({
         }}>
           {node.label}
         </div>
-      </Html>
+      </Html>}
+
+      {/* Badge on collapsed nodes; clicking it expands the subtree */}
+      {hiddenCount > 0 && !ghost && (
+        <Html position={[0, -scale * 1.6, 0]} center distanceFactor={6}>
+          <button
+            type="button"
+            onClick={(e) => { e.stopPropagation(); onToggleCollapse?.(); }}
+            title={`Show ${hiddenCount} hidden node${hiddenCount === 1 ? "" : "s"}`}
+            style={{
+              background: "hsl(var(--primary))",
+              color: "hsl(var(--primary-foreground))",
+              borderRadius: 9999,
+              padding: "1px 8px",
+              fontSize: 11,
+              fontWeight: 600,
+              cursor: "pointer",
+              whiteSpace: "nowrap",
+            }}
+          >
+            +{hiddenCount}
+          </button>
+        </Html>
+      )}
       
       {/* Render widget previews symmetrically around the node */}
       {shouldShowWidgets && !sidePanelOpen && allWidgets.map((widget, index) => {
@@ -983,57 +309,17 @@ function NodeMesh({
           0 
         ];
         
-        // Extract the widget name from the widget object - widgets are now always objects  
-        const widgetSrc = widget.name;
-        
-        console.log(`Node ${node.id} at position ${node.position} has widget at position ${widgetPosition}`);
-        
-        // Extract notes from widget object
-        const widgetNotes = widget.notes || '';
-        
-        // Check if it's a YouTube video, website URL, or image
-        const isYoutube = isYouTubeUrl(widgetSrc);
-        const isWebsiteUrl = widgetSrc.startsWith('http://') || widgetSrc.startsWith('https://');
-        
-        console.log(`Processing widget for ${node.label}: "${widgetSrc}" - isYoutube: ${isYoutube}, isWebsiteUrl: ${isWebsiteUrl}`);
-        
-        if (isYoutube) {
-          return (
-            <YouTubePreview 
-              key={`${node.id}-youtube-${index}`}
-              url={widgetSrc} 
-              position={widgetPosition} 
-              index={index}
-              notes={widgetNotes}
-              widget={widget}
-              onWidgetClick={onWidgetClick}
-            />
-          );
-        } else if (isWebsiteUrl && !isYoutube) {
-          return (
-            <WebsitePreview 
-              key={`${node.id}-website-${index}`}
-              url={widgetSrc} 
-              position={widgetPosition} 
-              index={index}
-              notes={widgetNotes}
-              widget={widget}
-              onWidgetClick={onWidgetClick}
-            />
-          );
-        } else {
-          return (
-            <ImagePreview 
-              key={`${node.id}-img-${index}`}
-              src={widgetSrc} 
-              position={widgetPosition} 
-              index={index}
-              notes={widgetNotes}
-              widget={widget}
-              onWidgetClick={onWidgetClick}
-            />
-          );
-        }
+        const { Preview } = getWidgetRenderer(widget);
+        return (
+          <Preview
+            key={`${node.id}-widget-${index}`}
+            widget={widget}
+            nodeId={node.id}
+            index={index}
+            position={widgetPosition}
+            onWidgetClick={onWidgetClick}
+          />
+        );
       })}
     </group>
   );
@@ -1167,53 +453,42 @@ function TaperedEdge({
 }
 
 // src/components/Graph3D.tsx - update the GraphScene component
-function GraphScene({ data }: { data: KnowledgeNode }) {
+function GraphScene() {
   const [focusId, setFocusId] = useState<string | null>(null);
   const [sidePanelOpen, setSidePanelOpen] = useState(false);
   const [selectedWidget, setSelectedWidget] = useState<Widget | null>(null);
-  const { nodes, edges } = useMemo(() => build3DLayout(data), [data]);
-  const idToNode = useMemo(() => new Map(nodes.map((n) => [n.id, n])), [nodes]);
+  const { nodes, edges, getNode } = useLayout();
   const controlsRef = useRef<any>(null);
   const { camera } = useThree();
   
   // Get the current focus from context
-  const { focusedNodeLabel, setFocusedNodeLabel, focusSource, setFocusSource, setDfsIndexByLabel } = useFocus();
-  
-  // Create a map of node labels to IDs for quick lookup
-  const labelToId = useMemo(() => {
-    const map = new Map<string, string>();
-    nodes.forEach(node => map.set(node.label, node.id));
-    return map;
-  }, [nodes]);
+  const { focusedNodeId, setFocusedNodeId, focusSource, setFocusSource, setTraversalIndexById } = useFocus();
   
-  // Listen for changes to focusedNodeLabel and update the 3D focus when coming from 2D view
+  // Listen for changes to focusedNodeId and update the 3D focus when coming from 2D view
   useEffect(() => {
-    if (focusedNodeLabel) {
-      const matchingId = labelToId.get(focusedNodeLabel);
-      if (matchingId) {
-        setFocusId(matchingId);
-      }
-    } else {
+    if (focusedNodeId && getNode(focusedNodeId)) {
+      setFocusId(focusedNodeId);
+    } else if (!focusedNodeId) {
       setFocusId(null);
     }
-  }, [focusedNodeLabel, labelToId]);
+  }, [focusedNodeId, getNode]);
   
   // Update the node click handler
   const handleNodeClick = (id: string) => {
-    const clickedNode = idToNode.get(id);
+    const clickedNode = getNode(id);
     if (!clickedNode) return;
     
     // Toggle focus state
     if (focusId === id) {
       setFocusId(null);
-      setFocusedNodeLabel(null);
+      setFocusedNodeId(null);
       setFocusSource(null);
     } else {
       setFocusId(id);
-      setFocusedNodeLabel(clickedNode.label);
+      setFocusedNodeId(id);
       setFocusSource('graph3d');
       // Set DFS to resume from this node
-      setDfsIndexByLabel(clickedNode.label);
+      setTraversalIndexById(id);
     }
   };
 
@@ -1316,8 +591,8 @@ function GraphScene({ data }: { data: KnowledgeNode }) {
       
       {/* Render edges connecting nodes with tapered thickness */}
       {edges.map((e, idx) => {
-        const sourceNode = idToNode.get(e.source);
-        const targetNode = idToNode.get(e.target);
+        const sourceNode = getNode(e.source);
+        const targetNode = getNode(e.target);
         if (!sourceNode || !targetNode) return null;
         
         const isFocusedEdge = focusId === e.source || focusId === e.target;
@@ -1358,152 +633,81 @@ function BackgroundColor() {
   return <color attach="background" args={[backgroundColor] as any} />;
 }
 
-// And update the Graph3D component to include the drawer
-export function Graph3D({ data }: { data: KnowledgeNode }) {
+// And update the Graph3D component to include the drawer.
+// onCanvasCreated hands out the WebGL canvas, e.g. for presenter thumbnails.
+export function Graph3D({ onCanvasCreated }: { onCanvasCreated?: (canvas: HTMLCanvasElement) => void }) {
   const card = useCssHsl("--card", "hsl(0 0% 100%)");
-  const [sidePanelOpen, setSidePanelOpen] = useState(false);
-  const [selectedWidget, setSelectedWidget] = useState<Widget | null>(null);
   const [showOnlyFocusedWidgets, setShowOnlyFocusedWidgets] = useState(true);
-  const [iframeError, setIframeError] = useState(false);
   const [isReading, setIsReading] = useState(false);
   const [isReadingWidget, setIsReadingWidget] = useState(false);
-  const [selectedVoice, setSelectedVoice] = useState('');
-  const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [tourDwellSeconds, setTourDwellSeconds] = useState(DEFAULT_TOUR_DWELL_SECONDS);
+  const [tourReadsWidgets, setTourReadsWidgets] = useState(false);
+
+  // Auto-play: walks the active path, reading each node aloud
+  const { narrate } = useSpeech();
+  const tour = useNarratedTour({
+    dwellMs: tourDwellSeconds * 1000,
+    readWidgets: tourReadsWidgets,
+  });
   
   // Get the current focus from context  
-  const { focusedNodeLabel } = useFocus();
-  
-  // Load available voices from Web Speech API
-  useEffect(() => {
-    const loadVoices = () => {
-      const voices = speechSynthesis.getVoices();
-      
-      // Filter for high-quality voices (Google, Microsoft, etc.)
-      const qualityVoices = voices.filter(voice => {
-        const name = voice.name.toLowerCase();
-        const lang = voice.lang.toLowerCase();
-        
-        // Prioritize English voices from quality providers
-        return (
-          lang.startsWith('en') && (
-            name.includes('google') ||
-            name.includes('microsoft') ||
-            name.includes('enhanced') ||
-            name.includes('premium') ||
-            name.includes('natural') ||
-            voice.localService === false // Cloud-based voices are usually better
-          )
-        );
-      });
-      
-      // Fallback to all English voices if no quality voices found
-      const selectedVoices = qualityVoices.length > 0 
-        ? qualityVoices 
-        : voices.filter(v => v.lang.toLowerCase().startsWith('en'));
-      
-      setAvailableVoices(selectedVoices);
-      
-      // Set default voice to first available
-      if (selectedVoices.length > 0 && !selectedVoice) {
-        setSelectedVoice(selectedVoices[0].name);
-      }
-    };
-    
-    loadVoices();
-    
-    // Voices may load asynchronously
-    if (speechSynthesis.onvoiceschanged !== undefined) {
-      speechSynthesis.onvoiceschanged = loadVoices;
-    }
-  }, []);
+  const { focusedNodeId } = useFocus();
   
   // Get the focused node's prose content
-  const { nodes } = useMemo(() => build3DLayout(data), [data]);
-  const focusedNode = useMemo(() => {
-    return nodes.find(node => node.label === focusedNodeLabel);
-  }, [nodes, focusedNodeLabel]);
+  const { layoutId, setLayoutId, getNode, expandAll, collapseToDepth } = useLayout();
+  const { revealMode, setRevealMode, resetReveal } = useReveal();
+  const { searchTerm, setSearchTerm, isSearching, matchIds, focusNextMatch, focusPreviousMatch } = useSearch();
+  const focusedNode = getNode(focusedNodeId);
+
+  // The drawer is driven from the focus context, so the keyboard and the
+  // presenter window can open and close widgets too
+  const { drawerWidget, isDrawerOpen: sidePanelOpen, openWidget, closeWidget } = useFocus();
+  const selectedWidget = drawerWidget
+    ? getNode(drawerWidget.nodeId)?.widgets?.[drawerWidget.index] ?? null
+    : null;
+  const WidgetBody = selectedWidget ? getWidgetRenderer(selectedWidget).Drawer : null;
   
   // Text-to-speech functionality for nodes
   const readProseContent = () => {
-    if (!focusedNode?.prose) {
+    if (!focusedNode?.prose && !focusedNode?.audio) {
       console.log('No prose content available for the focused node');
       return;
     }
     
     // Stop any current speech
-    speechSynthesis.cancel();
+    stopSpeaking();
     
     if (isReading) {
       setIsReading(false);
       return;
     }
     
-    const utterance = new SpeechSynthesisUtterance(focusedNode.prose);
-    
-    // Find and set the selected voice
-    const voice = availableVoices.find(v => v.name === selectedVoice);
-    if (voice) {
-      utterance.voice = voice;
-    }
-    
-    // Configure speech settings
-    utterance.rate = 0.95;
-    utterance.pitch = 1.0;
-    utterance.volume = 0.9;
-    
-    // Set up event listeners
-    utterance.onstart = () => setIsReading(true);
-    utterance.onend = () => setIsReading(false);
-    utterance.onerror = () => setIsReading(false);
-    
-    // Start speaking
-    speechSynthesis.speak(utterance);
+    // Spoken through the speech context, so settings and captions apply
+    setIsReading(true);
+    narrate(focusedNode).then(() => setIsReading(false));
   };
 
   // Text-to-speech functionality for widgets
   const readWidgetProseContent = () => {
-    if (!selectedWidget?.prose) {
+    if (!selectedWidget?.prose && !selectedWidget?.audio) {
       console.log('No prose content available for the selected widget');
       return;
     }
     
     // Stop any current speech
-    speechSynthesis.cancel();
+    stopSpeaking();
     
     if (isReadingWidget) {
       setIsReadingWidget(false);
       return;
     }
     
-    const utterance = new SpeechSynthesisUtterance(selectedWidget.prose);
-    
-    // Find and set the selected voice
-    const voice = availableVoices.find(v => v.name === selectedVoice);
-    if (voice) {
-      utterance.voice = voice;
-    }
-    
-    // Configure speech settings
-    utterance.rate = 0.95;
-    utterance.pitch = 1.0;
-    utterance.volume = 0.9;
-    
-    // Set up event listeners
-    utterance.onstart = () => setIsReadingWidget(true);
-    utterance.onend = () => setIsReadingWidget(false);
-    utterance.onerror = () => setIsReadingWidget(false);
-    
-    // Start speaking
-    speechSynthesis.speak(utterance);
+    setIsReadingWidget(true);
+    narrate(selectedWidget).then(() => setIsReadingWidget(false));
   };
   
-  // Reset iframe error when widget changes
-  useEffect(() => {
-    setIframeError(false);
-  }, [selectedWidget]);
-  
   // Get focus control functions from context
-  const { setFocusedNodeLabel, focusSource, setFocusSource, setDfsIndexByLabel } = useFocus();
+  const { setFocusedNodeId, focusSource, setFocusSource, setTraversalIndexById } = useFocus();
   
   return (
     <>
@@ -1527,14 +731,52 @@ export function Graph3D({ data }: { data: KnowledgeNode }) {
                 Focus mode
               </label>
             </div>
+
+            {/* Layout engine selector */}
+            <Select value={layoutId} onValueChange={(value) => setLayoutId(value as LayoutEngineId)}>
+              <SelectTrigger className="w-40" aria-label="Layout">
+                <SelectValue placeholder="Layout" />
+              </SelectTrigger>
+              <SelectContent>
+                {layoutEngines.map((engine) => (
+                  <SelectItem key={engine.id} value={engine.id} title={engine.description}>
+                    {engine.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {/* Collapse everything below the top two levels, or show it all again */}
+            <Button variant="outline" size="sm" onClick={() => collapseToDepth(2)} title="Show only the top two levels" aria-label="Show only the top two levels">
+              <ChevronsDownUp className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={expandAll} title="Expand every node" aria-label="Expand every node">
+              <ChevronsUpDown className="h-4 w-4" />
+            </Button>
+
+            {/* Progressive reveal: hide or ghost what the talk has not reached yet */}
+            <Select value={revealMode} onValueChange={(value) => setRevealMode(value as RevealMode)}>
+              <SelectTrigger className="w-36" aria-label="Progressive reveal">
+                <SelectValue placeholder="Reveal" />
+              </SelectTrigger>
+              <SelectContent>
+                {revealModes.map((mode) => (
+                  <SelectItem key={mode} value={mode}>{revealModeLabels[mode]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {revealMode !== 'off' && (
+              <Button variant="outline" size="sm" onClick={resetReveal} title="Hide everything not reached yet again" aria-label="Hide everything not reached yet again">
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+            )}
             
             {/* TTS Speaker Button */}
-            {focusedNode?.prose && (
+            {(focusedNode?.prose || focusedNode?.audio) && (
               <Button
                 variant="outline"
                 size="sm"
                 onClick={readProseContent}
-                disabled={!focusedNode?.prose}
                 className="flex items-center gap-2"
               >
                 {isReading ? (
@@ -1545,45 +787,104 @@ export function Graph3D({ data }: { data: KnowledgeNode }) {
                 {isReading ? "Stop" : "Read"}
               </Button>
             )}
-             {/* Voice Selector */}
-             <div className="flex items-center space-x-2">
-              <Select value={selectedVoice} onValueChange={setSelectedVoice}>
-                <SelectTrigger className="w-40">
-                  <SelectValue placeholder="Select Voice" />
-                </SelectTrigger>
-                <SelectContent>
-                  {availableVoices.map((voice) => (
-                    <SelectItem key={voice.name} value={voice.name}>
-                      {voice.name.replace(/\s*\(.*?\)\s*/g, '').substring(0, 30)}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+            {/* Position in a recorded narration, while one plays */}
+            <NarrationScrubber />
+            {/* Voice, language, rate, pitch and volume */}
+            <SpeechSettingsPanel />
+          </div>
+
+          {/* Search shared with the 2D tree: matches glow, the rest dims */}
+          <div className="mt-3 flex items-center gap-2">
+            <Input
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Highlight matches…"
+              aria-label="Highlight matches"
+              className="h-8 w-56"
+            />
+            {isSearching && (
+              <>
+                <span className="text-sm text-muted-foreground tabular-nums whitespace-nowrap">
+                  {matchIds.length} {matchIds.length === 1 ? "match" : "matches"}
+                </span>
+                <Button variant="outline" size="sm" onClick={focusPreviousMatch} disabled={matchIds.length === 0} title="Previous match" aria-label="Previous match">
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={focusNextMatch} disabled={matchIds.length === 0} title="Next match" aria-label="Next match">
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setSearchTerm("")} title="Clear search" aria-label="Clear search">
+                  <X className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+
+          {/* Narrated tour along the active path */}
+          <div className="mt-3 flex items-center gap-2">
+            <Button
+              variant={tour.status === "idle" ? "outline" : "default"}
+              size="sm"
+              onClick={tour.status === "playing" ? tour.pause : tour.play}
+              className="flex items-center gap-2"
+            >
+              {tour.status === "playing" ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              {tour.status === "playing" ? "Pause tour" : tour.status === "paused" ? "Resume tour" : "Play tour"}
+            </Button>
+            {tour.status !== "idle" && (
+              <>
+                <Button variant="outline" size="sm" onClick={tour.skip} title="Skip to the next node" aria-label="Skip to the next node">
+                  <SkipForward className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={tour.stop} title="Stop the tour" aria-label="Stop the tour">
+                  <Square className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <label className="flex items-center gap-1 text-sm text-muted-foreground" title="Time spent on nodes without prose">
+              <Input
+                type="number"
+                min={1}
+                value={tourDwellSeconds}
+                onChange={(e) => setTourDwellSeconds(Math.max(1, Number(e.target.value) || DEFAULT_TOUR_DWELL_SECONDS))}
+                aria-label="Seconds on nodes without prose"
+                className="h-8 w-16"
+              />
+              s
+            </label>
+            <div className="flex items-center space-x-2">
+              <Switch id="tour-widgets" checked={tourReadsWidgets} onCheckedChange={setTourReadsWidgets} />
+              <label htmlFor="tour-widgets" className="text-sm font-medium text-foreground cursor-pointer">
+                Read widgets
+              </label>
             </div>
           </div>
         </div>
         
         <div className="w-full h-full rounded-lg border border-border bg-card overflow-hidden">
-          <Canvas shadows camera={{ position: [0, 5, -15], fov: 50 }}>
+          <Canvas
+            shadows
+            camera={{ position: [0, 5, -15], fov: 50 }}
+            gl={{ preserveDrawingBuffer: true }}
+            onCreated={({ gl }) => onCanvasCreated?.(gl.domElement)}
+          >
             <BackgroundColor />
             <GraphSceneWithDrawer
-              data={data} 
-              setSidePanelOpen={setSidePanelOpen}
-              setSelectedWidget={setSelectedWidget}
+              openWidget={openWidget}
               showOnlyFocusedWidgets={showOnlyFocusedWidgets}
               sidePanelOpen={sidePanelOpen}
-              focusedNodeLabel={focusedNodeLabel}
-              setFocusedNodeLabel={setFocusedNodeLabel}
+              focusedNodeId={focusedNodeId}
+              setFocusedNodeId={setFocusedNodeId}
               focusSource={focusSource}
               setFocusSource={setFocusSource}
-              setDfsIndexByLabel={setDfsIndexByLabel}
+              setTraversalIndexById={setTraversalIndexById}
             />
           </Canvas>
         </div>
       </section>
 
       {/* Side panel drawer */}
-      <Drawer open={sidePanelOpen} onOpenChange={setSidePanelOpen}>
+      <Drawer open={sidePanelOpen} onOpenChange={(open) => { if (!open) closeWidget(); }}>
         <DrawerContent 
           className="max-w-4xl ml-auto h-full z-[100]"
           onWheel={(e) => e.stopPropagation()}
@@ -1603,7 +904,7 @@ export function Graph3D({ data }: { data: KnowledgeNode }) {
                   variant="outline"
                   size="sm"
                   onClick={readWidgetProseContent}
-                  disabled={!selectedWidget?.prose}
+                  disabled={!selectedWidget?.prose && !selectedWidget?.audio}
                   className="flex items-center gap-2"
                 >
                   {isReadingWidget ? (
@@ -1613,214 +914,30 @@ export function Graph3D({ data }: { data: KnowledgeNode }) {
                   )}
                   {isReadingWidget ? "Stop" : "Read"}
                 </Button>
-                
-                {/* Voice Selector for widget TTS */}
-                <Select value={selectedVoice} onValueChange={setSelectedVoice}>
-                  <SelectTrigger className="w-40">
-                    <SelectValue placeholder="Select Voice" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {availableVoices.map((voice) => (
-                      <SelectItem key={voice.name} value={voice.name}>
-                        {voice.name.replace(/\s*\(.*?\)\s*/g, '').substring(0, 30)}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
               </div>
             </div>
           </DrawerHeader>
           <div className="p-4 flex-1 overflow-auto">
             {selectedWidget && (
               <div className="space-y-4">
-                {/* Check if widget has url attribute or if name contains URL */}
-                {selectedWidget.url ? (
-                  selectedWidget.image_only ? (
-                    /* Widget has url and image_only flag - show image with open button */
-                    <div className="w-full">
-                      <div className="mb-2 flex justify-between items-center">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => window.open(selectedWidget.url, '_blank')}
-                        >
-                          Source
-                        </Button>
-                      </div>
-                      <img 
-                        src={selectedWidget.preview
-                          ? (selectedWidget.preview.startsWith('http')
-                            ? selectedWidget.preview
-                            : selectedWidget.preview.startsWith('/')
-                              ? selectedWidget.preview
-                              : `/data/${selectedWidget.preview}`)
-                          : (selectedWidget.name.startsWith('/')
-                            ? selectedWidget.name
-                            : `/data/${selectedWidget.name}`)
-                        }
-                        alt="Widget"
-                        className="w-full max-h-96 object-contain rounded-lg border border-border"
-                        onError={(e) => {
-                          e.currentTarget.style.display = 'none';
-                        }}
-                      />
-                    </div>
-                  ) : (
-                    /* Widget has url attribute - load that URL in iframe */
-                    <div className="w-full">
-                      <div className="mb-2 flex justify-between items-center">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => window.open(selectedWidget.url, '_blank')}
-                        >
-                          Source
-                        </Button>
-                      </div>
-                      {!iframeError ? (
-                        <iframe 
-                          src={selectedWidget.url}
-                          title="Website"
-                          className="w-full h-96 rounded-lg border border-border"
-                          sandbox="allow-scripts allow-same-origin allow-popups allow-forms"
-                          onError={() => {
-                            console.log('Failed to load iframe:', selectedWidget.url);
-                            setIframeError(true);
-                          }}
-                        />
-                      ) : (
-                        <img 
-                          src={selectedWidget.preview
-                            ? (selectedWidget.preview.startsWith('http')
-                              ? selectedWidget.preview
-                              : selectedWidget.preview.startsWith('/')
-                                ? selectedWidget.preview
-                                : `/data/${selectedWidget.preview}`)
-                            : (selectedWidget.name.startsWith('/')
-                              ? selectedWidget.name
-                              : `/data/${selectedWidget.name}`)
-                          }
-                          alt="Widget"
-                          className="w-full max-h-96 object-contain rounded-lg border border-border"
-                          onError={(e) => {
-                            e.currentTarget.style.display = 'none';
-                          }}
-                        />
-                      )}
-                    </div>
-                  )
-                ) : selectedWidget.name.includes('youtube.com') || selectedWidget.name.includes('youtu.be') ? (
-                  <div className="w-full">
-                    <iframe 
-                      src={(() => {
-                        const getYouTubeVideoId = (url: string) => {
-                          const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|\&v=)([^#\&\?]*).*/;
-                          const match = url.match(regExp);
-                          return (match && match[2].length === 11) ? match[2] : null;
-                        };
-                        const videoId = getYouTubeVideoId(selectedWidget.name);
-                        return videoId ? `https://www.youtube.com/embed/${videoId}` : selectedWidget.name;
-                      })()}
-                      title="YouTube video"
-                      className="w-full aspect-video rounded-lg border border-border"
-                      allowFullScreen
-                    />
-                  </div>
-                ) : selectedWidget.name.startsWith('http://') || selectedWidget.name.startsWith('https://') ? (
-                  /* Website iframe for URLs */
-                  <div className="w-full">
-                    {!iframeError ? (
-                      <>
-                        <div className="mb-2 flex justify-between items-center">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => window.open(selectedWidget.name, '_blank')}
-                          >
-                            Source
-                          </Button>
-                        </div>
-                        <iframe 
-                          src={selectedWidget.name}
-                          title="Website"
-                          className="w-full h-96 rounded-lg border border-border"
-                          sandbox="allow-scripts allow-same-origin allow-popups allow-forms"
-                          onError={() => {
-                            console.log('Failed to load iframe:', selectedWidget.name);
-                            setIframeError(true);
-                          }}
-                        />
-                      </>
-                    ) : (
-                      /* Show widget image when iframe fails */
-                      <>
-                        <div className="mb-2 flex justify-between items-center">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => window.open(selectedWidget.name, '_blank')}
-                          >
-                            Source
-                          </Button>
-                        </div>
-                        {selectedWidget.preview ? (
-                          <img 
-                            src={selectedWidget.preview.startsWith('http') 
-                              ? selectedWidget.preview 
-                              : selectedWidget.preview.startsWith('/') 
-                                ? selectedWidget.preview 
-                                : `/data/${selectedWidget.preview}`
-                            }
-                            alt="Widget" 
-                            className="w-full max-h-96 object-contain rounded-lg border border-border"
-                            onError={(e) => {
-                              e.currentTarget.style.display = 'none';
-                            }}
-                          />
-                        ) : (
-                          !selectedWidget.name.startsWith('http') && (
-                            <img 
-                              src={selectedWidget.name.startsWith('/') 
-                                ? selectedWidget.name 
-                                : `/data/${selectedWidget.name}`
-                              }
-                              alt="Widget" 
-                              className="w-full max-h-96 object-contain rounded-lg border border-border"
-                              onError={(e) => {
-                                e.currentTarget.style.display = 'none';
-                              }}
-                            />
-                          )
-                        )}
-                      </>
-                    )}
-                  </div>
-                ) : (
-                  /* Full-size widget image */
-                  <div className="w-full">
-                    <img 
-                      src={selectedWidget.name.startsWith('http') 
-                        ? selectedWidget.name 
-                        : selectedWidget.name.startsWith('/') 
-                          ? selectedWidget.name 
-                          : `/data/${selectedWidget.name}`
-                      }
-                      alt="Widget" 
-                      className="w-full max-h-96 object-contain rounded-lg border border-border"
-                      onError={(e) => {
-                        e.currentTarget.style.display = 'none';
-                      }}
-                    />
-                  </div>
+                {/* Image, video, website…: drawn by the widget's type */}
+                {WidgetBody && (
+                  <WidgetBody
+                    key={`${drawerWidget!.nodeId}-${drawerWidget!.index}`}
+                    widget={selectedWidget}
+                    nodeId={drawerWidget!.nodeId}
+                    index={drawerWidget!.index}
+                  />
                 )}
                 
                 {/* Widget prose content */}
                 {selectedWidget.prose && (
                   <div className="space-y-2">
                     <h3 className="font-semibold text-foreground">Prose:</h3>
-                    <div className="text-lg font-bold text-foreground whitespace-pre-wrap bg-muted/50 p-3 rounded-lg">
-                      {selectedWidget.prose}
-                    </div>
+                    <Markdown
+                      source={selectedWidget.prose}
+                      className="text-lg font-bold text-foreground bg-muted/50 p-3 rounded-lg"
+                    />
                   </div>
                 )}
                 
@@ -1828,9 +945,10 @@ export function Graph3D({ data }: { data: KnowledgeNode }) {
                 {selectedWidget.notes && (
                   <div className="space-y-2">
                     <h3 className="font-semibold text-foreground">Notes:</h3>
-                    <div className="text-lg font-bold text-foreground whitespace-pre-wrap bg-muted/50 p-3 rounded-lg">
-                      {selectedWidget.notes}
-                    </div>
+                    <Markdown
+                      source={selectedWidget.notes}
+                      className="text-lg font-bold text-foreground bg-muted/50 p-3 rounded-lg"
+                    />
                   </div>
                 )}
               </div>
@@ -1844,42 +962,66 @@ export function Graph3D({ data }: { data: KnowledgeNode }) {
 
 // Create a wrapper component that passes the drawer state down
 function GraphSceneWithDrawer({ 
-  data, 
-  setSidePanelOpen, 
-  setSelectedWidget,
+  openWidget,
   showOnlyFocusedWidgets,
   sidePanelOpen,
-  focusedNodeLabel,
-  setFocusedNodeLabel,
+  focusedNodeId,
+  setFocusedNodeId,
   focusSource,
   setFocusSource,
-  setDfsIndexByLabel
+  setTraversalIndexById
 }: {
-  data: KnowledgeNode;
-  setSidePanelOpen: (open: boolean) => void;
-  setSelectedWidget: (widget: Widget | null) => void;
+  openWidget: (nodeId: string, index: number) => void;
   showOnlyFocusedWidgets: boolean;
   sidePanelOpen: boolean;
-  focusedNodeLabel: string | null;
-  setFocusedNodeLabel: (label: string | null) => void;
+  focusedNodeId: string | null;
+  setFocusedNodeId: (id: string | null) => void;
   focusSource: 'graph2d' | 'graph3d' | null;
   setFocusSource: (source: 'graph2d' | 'graph3d' | null) => void;
-  setDfsIndexByLabel: (label: string) => void;
+  setTraversalIndexById: (id: string) => void;
 }) {
   const [focusId, setFocusId] = useState<string | null>(null);
-  const { nodes, edges } = useMemo(() => build3DLayout(data), [data]);
-  const idToNode = useMemo(() => new Map(nodes.map((n) => [n.id, n])), [nodes]);
+  const { nodes, edges, getNode, hiddenCount, hasChildren, toggleCollapsed } = useLayout();
+  const { revealMode, visibility, growing } = useReveal();
+  const { isSearching, isMatch } = useSearch();
   const controlsRef = useRef<any>(null);
   const { camera } = useThree();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  // A deep link may carry a camera pose; it replaces the usual framing of the
+  // root and the fly-in to the linked node, once
+  const linkedPose = useRef(readCameraPose(searchParams));
+  const linkedNodeId = useRef(readTalkLocation(searchParams).nodeId);
+
+  const saveCameraPose = useCallback(() => {
+    if (!controlsRef.current) return;
+    const pose = {
+      position: camera.position.toArray() as Vec3,
+      target: controlsRef.current.target.toArray() as Vec3,
+    };
+    // Read the live URL: focus changes may have updated it since this render
+    const params = writeCameraPose(new URLSearchParams(window.location.search), pose);
+    navigate({ search: `?${params}` }, { replace: true });
+  }, [camera, navigate]);
   
   // Find the root node (at depth 0) for initial positioning
   const rootNode = useMemo(() => {
-    return nodes.find(node => node.position[2] === 0); // Root node is at z=0 (depth 0)
+    return nodes.find(node => node.depth === 0);
   }, [nodes]);
   
   // Center the graph on the root node on initial load
   useEffect(() => {
     if (controlsRef.current && rootNode) {
+      const pose = linkedPose.current;
+      if (pose) {
+        camera.position.set(...pose.position);
+        controlsRef.current.target.set(...pose.target);
+        controlsRef.current.update();
+        if (!linkedNodeId.current) linkedPose.current = null;
+        return;
+      }
+
       // Set the orbit controls to look at the root node
       controlsRef.current.target.set(
         rootNode.position[0], 
@@ -1888,57 +1030,53 @@ function GraphSceneWithDrawer({
       );
       controlsRef.current.update();
     }
-  }, [rootNode]);
+  }, [rootNode, camera]);
   
   // Focus values are now passed as props from the parent component
   
-  // Create a map of node labels to IDs for quick lookup
-  const labelToId = useMemo(() => {
-    const map = new Map<string, string>();
-    nodes.forEach(node => map.set(node.label, node.id));
-    return map;
-  }, [nodes]);
-  
-  // Listen for changes to focusedNodeLabel and update the 3D focus when coming from 2D view
+  // Listen for changes to focusedNodeId and update the 3D focus when coming from 2D view
   useEffect(() => {
-    if (focusedNodeLabel) {
-      const matchingId = labelToId.get(focusedNodeLabel);
-      if (matchingId) {
-        setFocusId(matchingId);
-      }
-    } else {
+    if (focusedNodeId && getNode(focusedNodeId)) {
+      setFocusId(focusedNodeId);
+    } else if (!focusedNodeId) {
       setFocusId(null);
     }
-  }, [focusedNodeLabel, labelToId]);
+  }, [focusedNodeId, getNode]);
   
   // Update the node click handler
   const handleNodeClick = (id: string) => {
-    const clickedNode = idToNode.get(id);
+    const clickedNode = getNode(id);
     if (!clickedNode) return;
     
     // Toggle focus state
     if (focusId === id) {
       setFocusId(null);
-      setFocusedNodeLabel(null);
+      setFocusedNodeId(null);
       setFocusSource(null);
     } else {
       setFocusId(id);
-      setFocusedNodeLabel(clickedNode.label);
+      setFocusedNodeId(id);
       setFocusSource('graph3d');
       // Set DFS to resume from this node
-      setDfsIndexByLabel(clickedNode.label);
+      setTraversalIndexById(id);
     }
   };
 
   // Handle widget clicks
-  const handleWidgetClick = (widget: Widget) => {
+  const handleWidgetClick = (nodeId: string, widget: Widget) => {
     // Open side panel for all widgets (including URLs)
-    setSelectedWidget(widget);
-    setSidePanelOpen(true);
+    const index = getNode(nodeId)?.widgets?.indexOf(widget) ?? -1;
+    if (index !== -1) openWidget(nodeId, index);
   };
   
   // Handle focus animation when node is clicked
   useEffect(() => {
+    if (linkedPose.current && focusId) {
+      const restoring = focusId === linkedNodeId.current;
+      linkedPose.current = null;
+      if (restoring) return;
+    }
+
     if (focusId && controlsRef.current) {
       const focusedNode = nodes.find(n => n.id === focusId);
       if (focusedNode) {
@@ -1996,13 +1134,45 @@ function GraphSceneWithDrawer({
           
           if (progress < 1) {
             requestAnimationFrame(animate);
+          } else {
+            saveCameraPose();
           }
         }
         
         animate();
       }
     }
-  }, [focusId, nodes, camera]);
+  }, [focusId, nodes, camera, saveCameraPose]);
+  
+  // Nodes reached by the latest step grow out of their parent. One progress
+  // value drives the whole batch, so a branch revealed at once grows together.
+  const [growth, setGrowth] = useState(1);
+  const growthStart = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (revealMode === 'off' || growing.ids.size === 0) return;
+    growthStart.current = null;
+    setGrowth(0);
+  }, [growing, revealMode]);
+
+  useFrame(({ clock }) => {
+    if (growth >= 1) return;
+    if (growthStart.current === null) growthStart.current = clock.getElapsedTime();
+    setGrowth(Math.min(1, ((clock.getElapsedTime() - growthStart.current) * 1000) / REVEAL_GROW_MS));
+  });
+
+  const parentOf = useMemo(() => new Map(edges.map(e => [e.target, e.source])), [edges]);
+
+  const displayPosition = (id: string): Vec3 => {
+    const node = getNode(id)!;
+    const parentId = parentOf.get(id);
+    if (growth >= 1 || !growing.ids.has(id) || !parentId) return node.position;
+    const from = displayPosition(parentId);
+    const t = 1 - Math.pow(1 - growth, 3); // ease out
+    return [0, 1, 2].map(i => from[i] + (node.position[i] - from[i]) * t) as Vec3;
+  };
+
+  const growOf = (id: string) => (growing.ids.has(id) ? growth : 1);
   
   // Get colors from CSS variables
   const muted = "#3b82f6"; // Blue color for edges
@@ -2025,13 +1195,18 @@ function GraphSceneWithDrawer({
         panSpeed={0.5}
         zoomSpeed={1.0}
         makeDefault
+        onEnd={saveCameraPose}
       />
       
       {/* Render edges connecting nodes with tapered thickness */}
       {edges.map((e, idx) => {
-        const sourceNode = idToNode.get(e.source);
-        const targetNode = idToNode.get(e.target);
+        const sourceNode = getNode(e.source);
+        const targetNode = getNode(e.target);
         if (!sourceNode || !targetNode) return null;
+
+        // A parent is always reached before its children, so the target decides
+        const targetVisibility = visibility(e.target);
+        if (targetVisibility === 'hidden') return null;
         
         // Explicitly check for null focusId to ensure proper unfocusing
         const isFocusedEdge = focusId !== null && (focusId === e.source || focusId === e.target);
@@ -2040,27 +1215,33 @@ function GraphSceneWithDrawer({
         return (
           <TaperedEdge
             key={`edge-${idx}`}
-            sourcePos={sourceNode.position}
-            targetPos={targetNode.position}
+            sourcePos={displayPosition(e.source)}
+            targetPos={displayPosition(e.target)}
             sourceWeight={sourceNode.weight}
             targetWeight={targetNode.weight}
             color={lineColor}
-            opacity={isFocusedEdge ? 0.7 : 0.3}
+            opacity={targetVisibility === 'ghost' || (isSearching && !isFocusedEdge) ? 0.06 : isFocusedEdge ? 0.7 : 0.3}
             isFocused={isFocusedEdge}
           />
         );
       })}
       
-      {nodes.map((n) => (
+      {nodes.filter(n => visibility(n.id) !== 'hidden').map((n) => (
         <NodeMesh 
           key={n.id} 
           node={n} 
           onClick={handleNodeClick} 
           isFocused={n.id === focusId}
-          onWidgetClick={handleWidgetClick}
+          onWidgetClick={(widget) => handleWidgetClick(n.id, widget)}
           showOnlyFocusedWidgets={showOnlyFocusedWidgets}
           focusedNodeId={focusId}
           sidePanelOpen={sidePanelOpen}
+          hiddenCount={hiddenCount(n.id)}
+          onToggleCollapse={hasChildren(n.id) ? () => toggleCollapsed(n.id) : undefined}
+          position={displayPosition(n.id)}
+          grow={growOf(n.id)}
+          ghost={visibility(n.id) === 'ghost'}
+          searchHighlight={isSearching ? (isMatch(n.id) ? 'match' : 'dim') : null}
         />
       ))}
     </>
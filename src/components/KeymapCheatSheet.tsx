@@ -0,0 +1,43 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatKey, keyActionLabels, keyActions, type Keymap } from "@/lib/keymap";
+
+// The "?" overlay listing the keys bound for the current deck
+export function KeymapCheatSheet({
+  keymap,
+  open,
+  onOpenChange
+}: {
+  keymap: Keymap;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>Presentation clickers work too; they send the same keys.</DialogDescription>
+        </DialogHeader>
+        <dl className="grid grid-cols-[1fr_auto] gap-x-6 gap-y-2 text-sm">
+          {keyActions
+            .filter(action => keymap[action].length > 0)
+            .map(action => (
+              <div key={action} className="contents">
+                <dt className="text-muted-foreground">{keyActionLabels[action]}</dt>
+                <dd className="flex flex-wrap justify-end gap-1">
+                  {(action === "widgets" && keymap.widgets.length > 3
+                    ? [keymap.widgets[0], "…", keymap.widgets[keymap.widgets.length - 1]]
+                    : keymap[action]
+                  ).map(key => (
+                    <kbd key={key} className="rounded border border-border bg-muted px-1.5 py-0.5 font-mono text-xs text-foreground">
+                      {formatKey(key)}
+                    </kbd>
+                  ))}
+                </dd>
+              </div>
+            ))}
+        </dl>
+      </DialogContent>
+    </Dialog>
+  );
+}
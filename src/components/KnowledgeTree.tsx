@@ -17,16 +17,15 @@ import "@xyflow/react/dist/style.css";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Search } from "lucide-react";
+import { Minus, Search } from "lucide-react";
 import { useFocus } from '../contexts/FocusContext';
+import { useLayout } from '../contexts/LayoutContext';
+import { useReveal } from '../contexts/RevealContext';
+import { useSearch } from '../contexts/SearchContext';
+import { useAssets } from '../contexts/AssetContext';
 import TaperedEdge from './TaperedEdge';
 import { isValidImageUrl } from '../lib/utils';
-
-export type KnowledgeNode = {
-  node: string;
-  weight?: number;
-  children?: KnowledgeNode[];
-};
+import type { KnowledgeNode } from '../types';
 
 type PositionedNode = KnowledgeNode & {
   x: number;
@@ -36,36 +35,31 @@ type PositionedNode = KnowledgeNode & {
 };
 
 // Custom node component with handles
-function KnowledgeNodeComponent({ data }: { data: any }) {
+function KnowledgeNodeComponent({ id, data }: { id: string; data: any }) {
   const radius = data.radius || 20;
-  const { focusedNodeLabel, setFocusedNodeLabel, focusSource, setFocusSource, setDfsIndexByLabel } = useFocus();
+  const { focusedNodeId, setFocusedNodeId, focusSource, setFocusSource, setTraversalIndexById } = useFocus();
+  const { resolveAsset, reportAssetError } = useAssets();
+  const { hasChildren, hiddenCount, toggleCollapsed } = useLayout();
+  const hidden = hiddenCount(id);
   
   // Determine if this node is currently focused
-  const isFocused = focusedNodeLabel === data.label;
-  
-  // Check if this node matches the search term
-  const isSearchMatch = data.searchTerm && data.label.toLowerCase().includes(data.searchTerm.toLowerCase());
+  const isFocused = focusedNodeId === id;
   
-  // Debug logging
-  if (data.searchTerm) {
-    console.log(`Node ${data.label} - searchTerm: ${data.searchTerm}, isSearchMatch: ${isSearchMatch}`, {
-      nodeLabel: data.label,
-      searchTerm: data.searchTerm,
-      isMatch: isSearchMatch
-    });
-  }
+  // Check if this node matches the search term (shared with the 3D scene)
+  const { isSearching, isMatch } = useSearch();
+  const isSearchMatch = isSearching && isMatch(id);
   
   // Handle click on the node
   const handleNodeClick = () => {
-    if (focusedNodeLabel === data.label) {
+    if (focusedNodeId === id) {
       // Toggle off if already focused
-      setFocusedNodeLabel(null);
+      setFocusedNodeId(null);
       setFocusSource(null);
     } else {
-      setFocusedNodeLabel(data.label);
+      setFocusedNodeId(id);
       setFocusSource('graph2d');
       // Set DFS to resume from this node
-      setDfsIndexByLabel(data.label);
+      setTraversalIndexById(id);
     }
   };
   
@@ -88,6 +82,10 @@ function KnowledgeNodeComponent({ data }: { data: any }) {
           <div
             // Updated styling for focused node with THICKER light blue border and yellow highlight for search matches
             className={`rounded-full transition-transform duration-400 hover:scale-105 cursor-move flex items-center justify-center text-xs font-medium text-center leading-tight p-1 ${
+              data.ghost ? 'opacity-20' : isSearching && !isSearchMatch && !isFocused ? 'opacity-40' : ''
+            } ${
+              data.growing ? 'animate-in fade-in zoom-in-50 duration-700' : ''
+            } ${
               isFocused 
               ? 'scale-210 animate-[pulse_2s_ease-in-out_infinite]' 
               : isSearchMatch
@@ -111,11 +109,12 @@ function KnowledgeNodeComponent({ data }: { data: any }) {
             {isValidImageUrl(data.label) ? (
               <div className="w-full h-full rounded-full overflow-hidden">
                 <img 
-                  src={data.label} 
+                  src={resolveAsset(data.label)} 
                   alt="Node"
                   className="w-full h-full object-cover"
                   onError={(e) => {
                     // Fallback to text if image fails to load
+                    reportAssetError(data.label);
                     const target = e.target as HTMLImageElement;
                     target.style.display = 'none';
                     const parent = target.parentElement!;
@@ -131,6 +130,18 @@ function KnowledgeNodeComponent({ data }: { data: any }) {
         </TooltipTrigger>
         <TooltipContent>{data.label}</TooltipContent>
       </Tooltip>
+
+      {/* Collapse toggle; a collapsed node shows how many nodes it hides */}
+      {hasChildren(id) && !data.ghost && (
+        <button
+          type="button"
+          className="nodrag absolute left-1/2 -bottom-5 -translate-x-1/2 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-semibold text-primary-foreground"
+          onClick={(e) => { e.stopPropagation(); toggleCollapsed(id); }}
+          title={hidden > 0 ? `Show ${hidden} hidden node${hidden === 1 ? '' : 's'}` : 'Collapse'}
+        >
+          {hidden > 0 ? `+${hidden}` : <Minus size={10} />}
+        </button>
+      )}
       
       {/* Output handle (bottom) */}
       <Handle
@@ -186,10 +197,10 @@ function convertTreeToReactFlow(root: KnowledgeNode) {
   const stepX = totalLeaves > 1 ? usableWidth / (totalLeaves - 1) : 0;
   
   let leafIndex = 0;
-  let nodeId = 0;
 
   function processNode(node: KnowledgeNode, depth: number, parentId?: string): string {
-    const currentNodeId = `node-${nodeId++}`;
+    // React Flow ids are the stable deck node ids, so focus can be matched directly
+    const currentNodeId = node.id;
     
     let x: number;
     if (!node.children || node.children.length === 0) {
@@ -247,7 +258,7 @@ function convertTreeToReactFlow(root: KnowledgeNode) {
 }
 
 export function KnowledgeTree({ data }: { data: KnowledgeNode }) {
-  const [searchTerm, setSearchTerm] = useState("");
+  const { searchTerm, setSearchTerm } = useSearch();
   const [isSearchVisible, setIsSearchVisible] = useState(false);
   
   const { nodes: initialNodes, edges: initialEdges } = useMemo(() => 
@@ -258,17 +269,29 @@ export function KnowledgeTree({ data }: { data: KnowledgeNode }) {
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
   const { fitView } = useReactFlow();
 
-  // Update nodes with search term
+  // The tree changes when subtrees are collapsed or expanded; start over
+  // from the new layout and bring it all into view
+  useEffect(() => {
+    setNodes(initialNodes);
+    setEdges(initialEdges);
+    const frame = requestAnimationFrame(() => fitView({ padding: 0.1, duration: 300 }));
+    return () => cancelAnimationFrame(frame);
+  }, [initialNodes, initialEdges, setNodes, setEdges, fitView]);
+
+  // Progressive reveal: hide or ghost nodes the talk has not reached yet
+  const { visibility, growing } = useReveal();
   useEffect(() => {
-    console.log('Updating nodes with search term:', searchTerm);
     setNodes(nds => nds.map(node => ({
       ...node,
+      hidden: visibility(node.id) === 'hidden',
       data: {
         ...node.data,
-        searchTerm: searchTerm
+        ghost: visibility(node.id) === 'ghost',
+        growing: growing.ids.has(node.id)
       }
     })));
-  }, [searchTerm, setNodes]);
+    setEdges(eds => eds.map(edge => ({ ...edge, hidden: visibility(edge.target) === 'hidden' })));
+  }, [visibility, growing, initialNodes, setNodes, setEdges]);
 
   // Dynamic repositioning based on node movements
   const handleNodesChange = useCallback((changes: NodeChange[]) => {
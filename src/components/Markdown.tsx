@@ -0,0 +1,98 @@
+import { Fragment, useMemo, type ReactNode } from "react";
+import { Formula } from "@/components/Formula";
+import { useAssets } from "@/contexts/AssetContext";
+import { isExternalUrl } from "@/lib/assets";
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+const HEADING_CLASSES = ["text-2xl", "text-xl", "text-lg", "text-base", "text-base", "text-base"];
+
+function Inline({ nodes }: { nodes: MarkdownInline[] }) {
+  const { resolveAsset, reportAssetError } = useAssets();
+
+  const render = (node: MarkdownInline, key: number): ReactNode => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={key}>{node.text}</Fragment>;
+      case "strong":
+        return <strong key={key}><Inline nodes={node.children} /></strong>;
+      case "emphasis":
+        return <em key={key}><Inline nodes={node.children} /></em>;
+      case "code":
+        return <code key={key} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]">{node.text}</code>;
+      case "link":
+        return (
+          <a
+            key={key}
+            href={isExternalUrl(node.href) ? node.href : resolveAsset(node.href)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary underline underline-offset-2 break-all"
+          >
+            <Inline nodes={node.children} />
+          </a>
+        );
+      case "image":
+        return (
+          <img
+            key={key}
+            src={resolveAsset(node.src)}
+            alt={node.alt}
+            className="inline-block max-h-64 max-w-full rounded border border-border align-middle"
+            onError={(e) => {
+              e.currentTarget.style.display = "none";
+              reportAssetError(node.src);
+            }}
+          />
+        );
+      case "math":
+        return <Formula key={key} latex={node.latex} display={node.display} />;
+      case "break":
+        return <br key={key} />;
+    }
+  };
+
+  return <>{nodes.map(render)}</>;
+}
+
+function Block({ block }: { block: MarkdownBlock }) {
+  switch (block.type) {
+    case "paragraph":
+      return <p><Inline nodes={block.children} /></p>;
+    case "heading": {
+      const Tag = `h${block.level}` as "h1";
+      return <Tag className={cn("font-semibold", HEADING_CLASSES[block.level - 1])}><Inline nodes={block.children} /></Tag>;
+    }
+    case "list": {
+      const List = block.ordered ? "ol" : "ul";
+      return (
+        <List className={cn("space-y-1 pl-6", block.ordered ? "list-decimal" : "list-disc")}>
+          {block.items.map((item, i) => <li key={i}><Inline nodes={item} /></li>)}
+        </List>
+      );
+    }
+    case "blockquote":
+      return (
+        <blockquote className="space-y-2 border-l-4 border-border pl-3 italic text-muted-foreground">
+          {block.children.map((child, i) => <Block key={i} block={child} />)}
+        </blockquote>
+      );
+    case "code":
+      return (
+        <pre className="overflow-x-auto rounded bg-muted p-3 font-mono text-sm font-normal">
+          <code>{block.text}</code>
+        </pre>
+      );
+  }
+}
+
+// Node prose and widget notes, rendered from the Markdown subset in
+// lib/markdown. Images and relative links resolve against the deck folder.
+export function Markdown({ source, className }: { source: string; className?: string }) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return (
+    <div className={cn("space-y-3", className)}>
+      {blocks.map((block, i) => <Block key={i} block={block} />)}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { useRecordingPlayback } from "@/hooks/use-speech-progress";
+import { pauseSpeaking, resumeSpeaking, seekRecording } from "@/lib/speech";
+
+function formatTime(seconds: number) {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+// Play/pause and seek for the recorded narration that is playing; nothing
+// while speech synthesis reads or all is quiet
+export function NarrationScrubber() {
+  const playback = useRecordingPlayback();
+  if (!playback) return null;
+
+  const { currentTime, duration, paused } = playback;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={paused ? resumeSpeaking : pauseSpeaking}
+        title={paused ? "Resume narration" : "Pause narration"}
+        aria-label={paused ? "Resume narration" : "Pause narration"}
+      >
+        {paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+      </Button>
+      <Slider
+        aria-label="Narration position"
+        className="w-32"
+        min={0}
+        max={duration || 1}
+        step={0.1}
+        value={[currentTime]}
+        disabled={!duration}
+        onValueChange={([time]) => seekRecording(time)}
+      />
+      <span className="text-sm tabular-nums text-muted-foreground">
+        {formatTime(currentTime)} / {formatTime(duration)}
+      </span>
+    </div>
+  );
+}
@@ -1,18 +1,51 @@
-import { ChevronRight, ChevronLeft } from "lucide-react";
+import { ChevronRight, ChevronLeft, History, Redo2, Route, Undo2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useFocus } from "@/contexts/FocusContext";
 
 export function NavigationButton() {
-  const { focusNextNode, focusPreviousNode, dfsTraversal, currentDfsIndex } = useFocus();
+  const {
+    focusNextNode,
+    focusPreviousNode,
+    paths,
+    activePathId,
+    setActivePathId,
+    traversal,
+    currentTraversalIndex,
+    getNodeLabel,
+    focusedNodeId,
+    plannedNodeId,
+    returnToPlannedPath,
+    focusHistory,
+    historyIndex,
+    goToHistoryIndex,
+    goBackInHistory,
+    goForwardInHistory
+  } = useFocus();
 
-  const isDisabled = dfsTraversal.length === 0;
-  const currentNode = currentDfsIndex >= 0 ? dfsTraversal[currentDfsIndex] : null;
-  const nextIndex = (currentDfsIndex + 1) % dfsTraversal.length;
-  const nextNode = dfsTraversal[nextIndex];
+  const isDisabled = traversal.length === 0;
+  const nextIndex = (currentTraversalIndex + 1) % traversal.length;
+  const nextNode = getNodeLabel(traversal[nextIndex] ?? null);
+  const isOffPath = plannedNodeId !== null && plannedNodeId !== focusedNodeId;
 
   return (
     <div className="fixed right-4 top-1/2 -translate-y-1/2 z-20">
       <div className="flex flex-col items-center gap-3">
+        {paths.length > 1 && (
+          <Select value={activePathId} onValueChange={setActivePathId}>
+            <SelectTrigger className="w-32 h-8 text-xs bg-background/80 backdrop-blur-sm" aria-label="Presentation path">
+              <SelectValue placeholder="Path" />
+            </SelectTrigger>
+            <SelectContent align="end">
+              {paths.map((path) => (
+                <SelectItem key={path.id} value={path.id} title={path.description}>
+                  {path.name} ({path.nodeIds.length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
         <div className="flex flex-col gap-2">
           <Button
             onClick={focusPreviousNode}
@@ -36,7 +69,7 @@ export function NavigationButton() {
         {!isDisabled && (
           <div className="text-xs text-muted-foreground text-center bg-background/80 backdrop-blur-sm px-3 py-2 rounded border border-border min-w-32">
             <div className="font-semibold text-foreground mb-1">
-              {currentDfsIndex + 1}/{dfsTraversal.length}
+              {currentTraversalIndex + 1}/{traversal.length}
             </div>
             {nextNode && (
               <div className="font-medium text-foreground text-wrap max-w-28 leading-tight">
@@ -45,6 +78,71 @@ export function NavigationButton() {
             )}
           </div>
         )}
+        {/* Focus history, for finding the way back after a detour */}
+        <div className="flex gap-1 rounded-full bg-background/80 backdrop-blur-sm border border-border p-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 rounded-full"
+            onClick={goBackInHistory}
+            disabled={historyIndex <= 0}
+            aria-label="Back in focus history"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 rounded-full"
+                disabled={focusHistory.length === 0}
+                aria-label="Focus history"
+              >
+                <History className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent side="left" align="center" className="w-64 max-h-80 overflow-auto p-2">
+              <ol className="space-y-1">
+                {focusHistory.map((visit, index) => (
+                  <li key={`${visit.visitedAt}-${index}`}>
+                    <button
+                      onClick={() => goToHistoryIndex(index)}
+                      className={`flex w-full items-baseline justify-between gap-2 rounded px-2 py-1 text-left text-sm hover:bg-accent ${index === historyIndex ? "bg-accent font-semibold" : ""}`}
+                    >
+                      <span className="truncate">{getNodeLabel(visit.nodeId)}</span>
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {new Date(visit.visitedAt).toLocaleTimeString()}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </PopoverContent>
+          </Popover>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 rounded-full"
+            onClick={goForwardInHistory}
+            disabled={historyIndex >= focusHistory.length - 1}
+            aria-label="Forward in focus history"
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </div>
+        {isOffPath && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={returnToPlannedPath}
+            className="max-w-32 bg-background/80 backdrop-blur-sm text-xs"
+            title={`Return to ${getNodeLabel(plannedNodeId)}`}
+          >
+            <Route className="h-4 w-4 shrink-0" />
+            <span className="truncate">Back to path</span>
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,96 @@
+import { useMemo, useState } from "react";
+import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { useFocus } from "@/contexts/FocusContext";
+import { useSearch } from "@/contexts/SearchContext";
+import { buildSearchIndex, searchDeck, type SearchResult, type SearchSnippet } from "@/lib/search";
+import type { KnowledgeNode } from "../types";
+
+const FIELD_NAMES: Record<SearchSnippet["field"], string> = {
+  label: "Label",
+  prose: "Prose",
+  title: "Title",
+  subtitle: "Subtitle",
+  notes: "Notes",
+};
+
+function Snippet({ snippet }: { snippet: SearchSnippet }) {
+  const [start, end] = snippet.highlight;
+  return (
+    <span className="block truncate text-xs text-muted-foreground">
+      <span className="mr-1 font-medium">{FIELD_NAMES[snippet.field]}:</span>
+      {snippet.text.slice(0, start)}
+      <mark className="rounded-sm bg-yellow-300/70 px-0.5 text-foreground">{snippet.text.slice(start, end)}</mark>
+      {snippet.text.slice(end)}
+    </span>
+  );
+}
+
+// Search over every node and widget of the deck. Picking a node focuses it
+// (the camera flies there); picking a widget also opens it in the drawer.
+export function SearchPalette({
+  data,
+  open,
+  onOpenChange
+}: {
+  data: KnowledgeNode;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { setFocusedNodeId, setFocusSource, setTraversalIndexById, openWidget } = useFocus();
+  const { setSearchTerm } = useSearch();
+  const [query, setQuery] = useState("");
+
+  const index = useMemo(() => buildSearchIndex(data), [data]);
+  const results = useMemo(() => searchDeck(index, query), [index, query]);
+  const nodeResults = results.filter(result => result.entry.widgetIndex === null);
+  const widgetResults = results.filter(result => result.entry.widgetIndex !== null);
+
+  const select = ({ entry }: SearchResult) => {
+    setFocusedNodeId(entry.nodeId);
+    setFocusSource('graph3d');
+    setTraversalIndexById(entry.nodeId);
+    if (entry.widgetIndex !== null) openWidget(entry.nodeId, entry.widgetIndex);
+    // Keep the other matches highlighted in both views
+    setSearchTerm(query);
+    onOpenChange(false);
+  };
+
+  const renderResult = (result: SearchResult) => {
+    const { entry } = result;
+    return (
+      <CommandItem
+        key={`${entry.nodeId}:${entry.widgetIndex ?? "node"}`}
+        value={`${entry.nodeId}:${entry.widgetIndex ?? "node"}`}
+        onSelect={() => select(result)}
+        className="flex-col items-start gap-0.5"
+      >
+        <span className="font-medium">
+          {entry.title}
+          {entry.widgetIndex !== null && (
+            <span className="ml-2 text-xs font-normal text-muted-foreground">in {entry.nodeLabel}</span>
+          )}
+        </span>
+        <Snippet snippet={result.snippet} />
+      </CommandItem>
+    );
+  };
+
+  return (
+    // Ranking is done by searchDeck, so cmdk's own filtering is switched off
+    <CommandDialog
+      open={open}
+      onOpenChange={(next) => {
+        onOpenChange(next);
+        if (!next) setQuery("");
+      }}
+      shouldFilter={false}
+    >
+      <CommandInput placeholder="Search nodes, prose and widgets…" value={query} onValueChange={setQuery} />
+      <CommandList>
+        {query.trim() && <CommandEmpty>No matches.</CommandEmpty>}
+        {nodeResults.length > 0 && <CommandGroup heading="Nodes">{nodeResults.map(renderResult)}</CommandGroup>}
+        {widgetResults.length > 0 && <CommandGroup heading="Widgets">{widgetResults.map(renderResult)}</CommandGroup>}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,47 @@
+import { useEffect, useRef } from "react";
+import { useSpeechProgress } from "@/hooks/use-speech-progress";
+
+// Start and end of the sentence around a position in the text
+function sentenceAround(text: string, index: number): [number, number] {
+  const before = text.slice(0, index);
+  const start = Math.max(before.lastIndexOf(". "), before.lastIndexOf("! "), before.lastIndexOf("? "), before.lastIndexOf("\n"));
+  const rest = /[.!?](\s|$)|\n/.exec(text.slice(index));
+  return [start === -1 ? 0 : start + 1, rest ? index + rest.index + 1 : text.length];
+}
+
+// Caption bar for whatever is being read aloud: the sentence being read is
+// emphasised and the current word highlighted, karaoke style. It scrolls
+// along with long prose and doubles as live captions.
+export function SpeechCaptions() {
+  const progress = useSpeechProgress();
+  const wordRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    wordRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [progress?.charIndex]);
+
+  if (!progress) return null;
+
+  const { text, charIndex, charLength } = progress;
+  const wordEnd = charIndex + charLength;
+  const [sentenceStart, sentenceEnd] = sentenceAround(text, charIndex);
+
+  return (
+    <div
+      role="region"
+      aria-label="Captions"
+      aria-live="off"
+      className="fixed bottom-4 left-1/2 z-40 w-[min(48rem,calc(100vw-2rem))] -translate-x-1/2 max-h-32 overflow-y-auto rounded-lg border border-border bg-background/90 px-4 py-3 text-lg leading-relaxed text-muted-foreground shadow-lg backdrop-blur-sm"
+    >
+      {text.slice(0, sentenceStart)}
+      <span className="text-foreground">
+        {text.slice(sentenceStart, charIndex)}
+        <mark ref={wordRef} className="rounded-sm bg-primary px-0.5 text-primary-foreground">
+          {text.slice(charIndex, wordEnd)}
+        </mark>
+        {text.slice(wordEnd, Math.max(wordEnd, sentenceEnd))}
+      </span>
+      {text.slice(Math.max(wordEnd, sentenceEnd))}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useMemo } from "react";
+import { Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { useSpeech } from "@/contexts/SpeechContext";
+import { findVoice, groupVoicesByLanguage, stopSpeaking, type SpeechSettings } from "@/lib/speech";
+
+// Radix Select items cannot have an empty value
+const DEFAULT_OPTION = "default";
+
+const SAMPLE_TEXT = "This is how the talk will sound.";
+
+const SLIDERS: { key: "rate" | "pitch" | "volume"; label: string; min: number; max: number; step: number }[] = [
+  { key: "rate", label: "Rate", min: 0.5, max: 2, step: 0.05 },
+  { key: "pitch", label: "Pitch", min: 0, max: 2, step: 0.05 },
+  { key: "volume", label: "Volume", min: 0, max: 1, step: 0.05 },
+];
+
+// Voice, language and delivery for everything read aloud in the talk
+export function SpeechSettingsPanel() {
+  const { settings, updateSettings, resetSettings, voices, speak } = useSpeech();
+
+  const groups = useMemo(() => groupVoicesByLanguage(voices), [voices]);
+  const shownGroups = settings.lang ? groups.filter(([lang]) => lang === settings.lang) : groups;
+  const voice = findVoice(voices, settings);
+
+  const changeLanguage = (value: string) => {
+    const lang = value === DEFAULT_OPTION ? null : value;
+    const changes: Partial<SpeechSettings> = { lang };
+    // A voice for another language would ignore the choice
+    if (lang && voice && voice.lang.replace("_", "-") !== lang) changes.voiceURI = null;
+    updateSettings(changes);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2" title="Speech settings">
+          <Settings2 className="h-4 w-4" />
+          Voice
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="speech-language">Language</Label>
+          <Select value={settings.lang ?? DEFAULT_OPTION} onValueChange={changeLanguage}>
+            <SelectTrigger id="speech-language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_OPTION}>Page default</SelectItem>
+              {groups.map(([lang]) => (
+                <SelectItem key={lang} value={lang}>{lang}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="speech-voice">Voice</Label>
+          <Select
+            value={voice?.voiceURI ?? DEFAULT_OPTION}
+            onValueChange={(value) => updateSettings({ voiceURI: value === DEFAULT_OPTION ? null : value })}
+          >
+            <SelectTrigger id="speech-voice">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_OPTION}>Browser default</SelectItem>
+              {shownGroups.map(([lang, list]) => (
+                <SelectGroup key={lang}>
+                  <SelectLabel>{lang}</SelectLabel>
+                  {list.map((v) => (
+                    <SelectItem key={v.voiceURI} value={v.voiceURI}>
+                      {v.name}{v.localService ? "" : " (online)"}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {SLIDERS.map(({ key, label, min, max, step }) => (
+          <div key={key} className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <Label>{label}</Label>
+              <span className="tabular-nums text-muted-foreground">{settings[key].toFixed(2)}</span>
+            </div>
+            <Slider
+              aria-label={label}
+              min={min}
+              max={max}
+              step={step}
+              value={[settings[key]]}
+              onValueChange={([value]) => updateSettings({ [key]: value })}
+            />
+          </div>
+        ))}
+
+        <div className="flex justify-between gap-2">
+          <Button variant="outline" size="sm" onClick={() => { stopSpeaking(); void speak(SAMPLE_TEXT); }}>
+            Test
+          </Button>
+          <Button variant="ghost" size="sm" onClick={resetSettings}>
+            Reset to deck defaults
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
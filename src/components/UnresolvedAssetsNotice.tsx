@@ -0,0 +1,35 @@
+import { ImageOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAssets } from "@/contexts/AssetContext";
+
+// Lists media the current deck refers to but that could not be found, so it
+// can be fixed before presenting. Renders nothing when every asset resolved.
+export function UnresolvedAssetsNotice() {
+  const { unresolvedAssets } = useAssets();
+
+  if (unresolvedAssets.length === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2 text-destructive">
+          <ImageOff className="h-4 w-4" />
+          {unresolvedAssets.length} missing asset{unresolvedAssets.length === 1 ? "" : "s"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 max-h-96 overflow-auto">
+        <ul className="space-y-2">
+          {unresolvedAssets.map((asset) => (
+            <li key={`${asset.nodeId}-${asset.field}`} className="text-sm">
+              <code className="block font-mono text-destructive break-all">{asset.path}</code>
+              <div className="text-xs text-muted-foreground">
+                {asset.nodeLabel} · {asset.field} · {asset.reason}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Html } from "@react-three/drei";
+import { Check, Copy } from "lucide-react";
+import { useFocus } from "../../contexts/FocusContext";
+import { codeLanguageOf, highlightCode, highlightSteps, parseLineRanges, type CodeToken, type CodeTokenKind } from "../../lib/code";
+import { cn } from "../../lib/utils";
+import { Button } from "../ui/button";
+import { useTextSource } from "../../hooks/use-text-source";
+import type { WidgetDrawerProps, WidgetPreviewProps } from "./types";
+
+// Code is always shown on a dark background, in the 3D scene as in the drawer
+const TOKEN_CLASSES: Record<CodeTokenKind, string> = {
+  plain: "",
+  keyword: "text-purple-300 font-semibold",
+  string: "text-green-300",
+  comment: "text-slate-400 italic",
+  number: "text-orange-300",
+};
+
+const PREVIEW_LINES = 12;           // as many as fit the card
+
+// Lines to highlight now: the step Next has reached when this is the
+// focused node's stepped widget, else the first step
+function useHighlight(widget: WidgetDrawerProps["widget"], nodeId: string, index: number) {
+  const { steppedWidget } = useFocus();
+  const steps = highlightSteps(widget);
+  const step = steppedWidget?.nodeId === nodeId && steppedWidget.index === index ? steppedWidget.step : 0;
+  const spec = steps[step];
+  const lines = useMemo(() => new Set(spec ? parseLineRanges(spec) ?? [] : []), [spec]);
+  return { lines, step, count: steps.length };
+}
+
+function CodeLine({ tokens }: { tokens: CodeToken[] }) {
+  return (
+    <>
+      {tokens.map((token, i) => (
+        <span key={i} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+      ))}
+    </>
+  );
+}
+
+// Miniature of the snippet, starting at the first highlighted line
+export function CodePreview({ widget, nodeId, index, position, onWidgetClick }: WidgetPreviewProps) {
+  const code = useTextSource(widget);
+  const language = codeLanguageOf(widget);
+  const lines = useMemo(() => (typeof code === "string" ? highlightCode(code, language) : []), [code, language]);
+  const highlight = useHighlight(widget, nodeId, index);
+  const first = Math.max(0, Math.min(...highlight.lines) - 2);
+  const start = Number.isFinite(first) && first < lines.length ? first : 0;
+
+  return (
+    <Html position={position} transform occlude sprite>
+      <div
+        className="w-40 h-28 cursor-pointer overflow-hidden rounded-lg border-2 border-white/80 bg-slate-900 p-1 font-mono text-[6px] leading-[9px] text-slate-100 shadow-lg"
+        onClick={(e) => {
+          e.stopPropagation();
+          onWidgetClick(widget);
+        }}
+      >
+        {lines.slice(start, start + PREVIEW_LINES).map((tokens, i) => (
+          <div
+            key={start + i}
+            className={cn("whitespace-pre", highlight.lines.has(start + i + 1) && "bg-yellow-400/25")}
+          >
+            <CodeLine tokens={tokens} />
+          </div>
+        ))}
+        {typeof code !== "string" && <div className="text-slate-400">{widget.name}</div>}
+      </div>
+    </Html>
+  );
+}
+
+// The whole snippet with line numbers and a copy button
+export function CodeDrawer({ widget, nodeId, index }: WidgetDrawerProps) {
+  const code = useTextSource(widget);
+  const language = codeLanguageOf(widget);
+  const lines = useMemo(() => (typeof code === "string" ? highlightCode(code, language) : []), [code, language]);
+  const highlight = useHighlight(widget, nodeId, index);
+  const [copied, setCopied] = useState(false);
+  const firstHighlightedRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    firstHighlightedRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [highlight.lines, lines]);
+
+  const copy = () => {
+    if (typeof code !== "string") return;
+    void navigator.clipboard.writeText(code).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    });
+  };
+
+  const firstHighlighted = Math.min(...highlight.lines);
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+        <span>
+          {language ?? "text"}
+          {highlight.count > 1 && ` · step ${highlight.step + 1} of ${highlight.count}`}
+        </span>
+        <Button variant="outline" size="sm" onClick={copy} disabled={typeof code !== "string"} className="flex items-center gap-2">
+          {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+      </div>
+      <div className="max-h-[28rem] overflow-auto rounded-lg border border-border bg-slate-950 py-2 font-mono text-sm text-slate-100">
+        {code === undefined ? (
+          <div className="px-3 text-slate-400">Loading {widget.name}…</div>
+        ) : code === null ? (
+          <div className="px-3 text-slate-400">Cannot load {widget.name}</div>
+        ) : (
+          lines.map((tokens, i) => (
+            <div
+              key={i}
+              ref={i + 1 === firstHighlighted ? firstHighlightedRef : undefined}
+              className={cn("flex whitespace-pre pr-3", highlight.lines.has(i + 1) && "bg-yellow-400/20")}
+            >
+              <span className="w-12 shrink-0 select-none pr-3 text-right text-slate-500">{i + 1}</span>
+              <span><CodeLine tokens={tokens} /></span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
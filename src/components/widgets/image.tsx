@@ -0,0 +1,236 @@
+import { useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { useFrame, useThree } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import { useAssets } from "../../contexts/AssetContext";
+import { DebugMarker, SourceButton, WidgetImage } from "./shared";
+import type { WidgetDrawerProps, WidgetPreviewProps } from "./types";
+
+// Picture floating next to the node
+export function ImagePreview({
+  widget,
+  position,
+  index,
+  onWidgetClick
+}: WidgetPreviewProps) {
+  const src = widget.name;
+  const [fullscreenView, setFullscreenView] = useState(false);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [imageError, setImageError] = useState(false);
+  const { resolveAsset, reportAssetError } = useAssets();
+  
+  // Use the position passed from parent (already calculated symmetrically)
+  const imagePos: [number, number, number] = position;
+  
+  // Resolve image path against the active deck's folder
+  const imagePath = useMemo(() => resolveAsset(src), [src, resolveAsset]);
+  
+  
+  // Handle image loading
+  const handleImageLoad = () => {
+    console.log(`✅ Image loaded successfully: ${imagePath}`);
+    setIsVisible(true);
+    setImageError(false);
+  };
+  
+  const handleImageError = () => {
+    console.error(`❌ Failed to load image: ${imagePath}`);
+    setImageError(true);
+    reportAssetError(src);
+    // Still show a placeholder even on error
+    setIsVisible(true);
+  };
+  
+  // Handle visibility based on camera position
+  const { camera } = useThree();
+  useFrame(() => {
+    if (!imageRef.current) return;
+    
+    // Calculate distance to camera
+    const distance = new THREE.Vector3(...imagePos).distanceTo(camera.position);
+    
+    // Always show images when reasonably close - increased range and always visible when loaded
+    if (distance < 50) {
+      imageRef.current.style.opacity = "1";
+      if (!isVisible && !imageError) {
+        setIsVisible(true); // Force visibility
+      }
+    } else {
+      imageRef.current.style.opacity = "0.5"; // Still partially visible at distance
+    }
+  });
+  
+  // Open side panel view  
+  const openSidePanel = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    console.log("Opening side panel for:", imagePath);
+    // Pass the entire widget object to the handler
+    onWidgetClick(widget);
+  };
+  
+  // Close fullscreen view
+  const closeFullscreen = () => {
+    setFullscreenView(false);
+  };
+  
+  return (
+    <>
+      {/* Debug sphere to see where the image should be */}
+      <DebugMarker position={imagePos} />
+      
+      {/* The actual image */}
+      <group position={imagePos}>
+        <Html
+          center
+          transform
+          occlude={false}
+          distanceFactor={10}
+          position={[0, 0, 0]}
+          style={{ 
+            width: "60px", 
+            height: "60px",
+            // Try different approach for the container
+            transform: "rotateY(180deg)"
+          }}
+        >
+          {imageError ? (
+            <div 
+              style={{
+                width: "100%",
+                height: "100%",
+                position: "relative",
+                backgroundColor: "rgba(255,0,0,0.5)",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                borderRadius: "5px",
+                border: "2px solid white",
+                boxShadow: "0 0 10px rgba(0,0,0,0.7)",
+                fontSize: "10px",
+                color: "white",
+                textAlign: "center",
+                cursor: "pointer"
+              }}
+              onClick={openSidePanel}
+            >
+              Image<br/>Error
+            </div>
+          ) : (
+            <div 
+              ref={imageRef}
+              style={{
+                width: "100%",
+                height: "100%",
+                position: "relative",
+                cursor: "pointer",
+                borderRadius: "5px",
+                opacity: 1, // Always visible - remove conditional opacity
+                transition: "opacity 0.3s",
+                overflow: "hidden",
+                border: "2px solid cyan", // More visible border color
+                boxShadow: "0 0 15px rgba(0,255,255,0.7)", // Cyan glow
+                transform: "scaleX(-1)",
+                backgroundColor: imageError ? "rgba(255,0,0,0.3)" : "rgba(255,255,255,0.1)"
+              }}
+              onClick={openSidePanel}
+            >
+              <img 
+                src={imagePath}
+                alt="Preview"
+                onLoad={handleImageLoad}
+                onError={handleImageError}
+                style={{
+                  width: "100%",
+                  height: "100%",
+                  objectFit: "cover",
+                  // Fix inversion
+                  transform: "scaleX(-1)"
+                }}
+              />
+            </div>
+          )}
+        </Html>
+      </group>
+      
+      {/* Fullscreen view using portal */}
+      {fullscreenView && createPortal(
+        <div 
+          style={{
+            position: "fixed",
+            top: 0,
+            left: 0,
+            width: "100%",
+            height: "100%",
+            backgroundColor: "rgba(0,0,0,0.9)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            zIndex: 9999,
+            cursor: "pointer",
+          }}
+          onClick={closeFullscreen}
+        >
+          <div 
+            style={{
+              maxWidth: "90vw",
+              maxHeight: "90vh",
+              position: "relative",
+            }}
+            onClick={e => e.stopPropagation()}
+          >
+            <img 
+              src={imagePath}
+              alt="Fullscreen view"
+              style={{
+                maxWidth: "100%",
+                maxHeight: "90vh",
+                boxShadow: "0 0 30px rgba(0,0,0,0.8)"
+              }}
+            />
+            <button
+              style={{
+                position: "absolute",
+                top: "-40px",
+                right: "0",
+                background: "rgba(255,255,255,0.2)",
+                color: "white",
+                border: "none",
+                padding: "8px 16px",
+                borderRadius: "4px",
+                cursor: "pointer"
+              }}
+              onClick={closeFullscreen}
+            >
+              Close
+            </button>
+            <div style={{
+              marginTop: "10px",
+              color: "white",
+              textAlign: "center",
+              maxWidth: "100%",
+              overflow: "hidden",
+              textOverflow: "ellipsis",
+              whiteSpace: "nowrap"
+            }}>
+              {src}
+            </div>
+          </div>
+        </div>,
+        document.body
+      )}
+    </>
+  );
+}
+
+
+// Widgets with a url and image_only show their picture with a link to the source
+export function ImageDrawer({ widget }: WidgetDrawerProps) {
+  return (
+    <div className="w-full">
+      {widget.url && <SourceButton href={widget.url} />}
+      <WidgetImage path={widget.url ? widget.preview ?? widget.name : widget.name} />
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import type { Widget } from "../../types";
+import { widgetTypeOf, type WidgetTypeId } from "../../lib/widgetTypes";
+import { CodeDrawer, CodePreview } from "./code";
+import { ImageDrawer, ImagePreview } from "./image";
+import { MarkdownDrawer, MarkdownPreview } from "./markdown";
+import { MathDrawer, MathPreview } from "./math";
+import { AudioDrawer, AudioPreview, PdfDrawer, PdfPreview, VideoDrawer, VideoPreview } from "./media";
+import { WebsiteDrawer, WebsitePreview } from "./website";
+import { YouTubeDrawer, YouTubePreview } from "./youtube";
+import type { WidgetRenderer } from "./types";
+
+export type { WidgetDrawerProps, WidgetPreviewProps, WidgetRenderer } from "./types";
+
+// A new widget type needs an id in lib/widgetTypes and an entry here
+export const widgetRenderers: Record<WidgetTypeId, WidgetRenderer> = {
+  image: { Preview: ImagePreview, Drawer: ImageDrawer },
+  youtube: { Preview: YouTubePreview, Drawer: YouTubeDrawer },
+  website: { Preview: WebsitePreview, Drawer: WebsiteDrawer },
+  video: { Preview: VideoPreview, Drawer: VideoDrawer },
+  audio: { Preview: AudioPreview, Drawer: AudioDrawer },
+  pdf: { Preview: PdfPreview, Drawer: PdfDrawer },
+  code: { Preview: CodePreview, Drawer: CodeDrawer },
+  math: { Preview: MathPreview, Drawer: MathDrawer },
+  markdown: { Preview: MarkdownPreview, Drawer: MarkdownDrawer },
+};
+
+export function getWidgetRenderer(widget: Widget): WidgetRenderer {
+  return widgetRenderers[widgetTypeOf(widget)];
+}
@@ -0,0 +1,35 @@
+import { Html } from "@react-three/drei";
+import { Markdown } from "../Markdown";
+import { useTextSource } from "../../hooks/use-text-source";
+import type { WidgetDrawerProps, WidgetPreviewProps } from "./types";
+
+// The top of the text on a card, like a page pinned next to the node
+export function MarkdownPreview({ widget, position, onWidgetClick }: WidgetPreviewProps) {
+  const text = useTextSource(widget);
+
+  return (
+    <Html position={position} transform occlude sprite>
+      <div
+        className="h-28 w-40 cursor-pointer overflow-hidden rounded-lg border-2 border-white/80 bg-white/95 p-2 text-[7px] leading-tight text-slate-900 shadow-lg"
+        onClick={(e) => {
+          e.stopPropagation();
+          onWidgetClick(widget);
+        }}
+      >
+        {typeof text === "string" ? (
+          <Markdown source={text} className="space-y-1" />
+        ) : (
+          <div className="text-slate-500">{widget.name}</div>
+        )}
+      </div>
+    </Html>
+  );
+}
+
+export function MarkdownDrawer({ widget }: WidgetDrawerProps) {
+  const text = useTextSource(widget);
+
+  if (text === undefined) return <p className="text-muted-foreground">Loading {widget.name}…</p>;
+  if (text === null) return <p className="text-muted-foreground">Cannot load {widget.name}</p>;
+  return <Markdown source={text} className="w-full text-lg leading-relaxed text-foreground" />;
+}
@@ -0,0 +1,32 @@
+import { Html } from "@react-three/drei";
+import { Formula } from "../Formula";
+import type { WidgetDrawerProps, WidgetPreviewProps } from "./types";
+
+// The formula itself floats next to the node, like a label
+export function MathPreview({ widget, position, onWidgetClick }: WidgetPreviewProps) {
+  return (
+    <Html position={position} transform occlude sprite>
+      <div
+        className="max-w-64 cursor-pointer rounded-lg border-2 border-white/80 bg-white/95 px-3 py-1 text-[10px] text-slate-900 shadow-lg"
+        onClick={(e) => {
+          e.stopPropagation();
+          onWidgetClick(widget);
+        }}
+      >
+        <Formula latex={widget.latex ?? ""} display />
+      </div>
+    </Html>
+  );
+}
+
+// The formula at reading size, with its LaTeX below for copying
+export function MathDrawer({ widget }: WidgetDrawerProps) {
+  return (
+    <div className="w-full space-y-2">
+      <div className="rounded-lg border border-border px-4 py-2 text-xl">
+        <Formula latex={widget.latex ?? ""} display />
+      </div>
+      <pre className="overflow-x-auto rounded bg-muted px-3 py-2 font-mono text-xs text-muted-foreground">{widget.latex}</pre>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState, type RefObject } from "react";
+import { Html } from "@react-three/drei";
+import { useAssets } from "../../contexts/AssetContext";
+import { useFocus } from "../../contexts/FocusContext";
+import { playMedia, registerMediaPlayer, trimOf, trimmedUrl, type MediaTrim } from "../../lib/mediaPlayback";
+import type { Widget } from "../../types";
+import { FileCard, SourceButton } from "./shared";
+import type { WidgetDrawerProps, WidgetPreviewProps } from "./types";
+
+// Hands the element to lib/mediaPlayback for as long as it is mounted, so
+// trim times and the play/pause key apply to it
+function useMediaPlayer(ref: RefObject<HTMLMediaElement>, widget: Widget, nodeId: string, index: number, inDrawer: boolean) {
+  const { start, end } = widget;
+  useEffect(() => {
+    if (!ref.current) return;
+    return registerMediaPlayer(ref.current, { nodeId, index, trim: trimOf({ start, end }), inDrawer });
+  }, [ref, nodeId, index, start, end, inDrawer]);
+}
+
+// Players in the 3D scene start when their node is focused if the widget
+// asks for "autoplay", and stop when the focus moves on. Returns whether the
+// player is paused, for the badge on the card.
+function useScenePlayer(ref: RefObject<HTMLMediaElement>, widget: Widget, nodeId: string, index: number) {
+  const { focusedNodeId } = useFocus();
+  const focused = focusedNodeId === nodeId;
+  const autoplay = !!widget.autoplay;
+  const [paused, setPaused] = useState(true);
+
+  useMediaPlayer(ref, widget, nodeId, index, false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    if (!focused) element.pause();
+    else if (autoplay) playMedia(element);
+  }, [ref, focused, autoplay]);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const update = () => setPaused(element.paused);
+    element.addEventListener("play", update);
+    element.addEventListener("pause", update);
+    return () => {
+      element.removeEventListener("play", update);
+      element.removeEventListener("pause", update);
+    };
+  }, [ref]);
+
+  return paused;
+}
+
+function PlayBadge({ paused }: { paused: boolean }) {
+  return (
+    <div className="pointer-events-none absolute bottom-1 right-1 flex h-5 w-5 items-center justify-center rounded-full bg-black/60 text-[9px] text-white">
+      {paused ? "▶" : "❚❚"}
+    </div>
+  );
+}
+
+function formatTime(seconds: number) {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+function TrimNote({ trim }: { trim: MediaTrim }) {
+  if (trim.start === 0 && trim.end === null) return null;
+  return (
+    <p className="text-sm text-muted-foreground">
+      Plays {formatTime(trim.start)}–{trim.end === null ? "end" : formatTime(trim.end)}
+    </p>
+  );
+}
+
+// The poster frame: the widget's preview image, else the video's own first
+// frame of the trimmed part. The video plays right there in the scene.
+export function VideoPreview({ widget, nodeId, index, position, onWidgetClick }: WidgetPreviewProps) {
+  const { resolveAsset, reportAssetError } = useAssets();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const paused = useScenePlayer(videoRef, widget, nodeId, index);
+
+  return (
+    <Html position={position} transform occlude sprite>
+      <div
+        className="relative h-[90px] w-40 cursor-pointer overflow-hidden rounded-lg border-2 border-white/80 bg-black shadow-lg"
+        onClick={(e) => {
+          e.stopPropagation();
+          onWidgetClick(widget);
+        }}
+      >
+        <video
+          ref={videoRef}
+          src={trimmedUrl(resolveAsset(widget.name)!, trimOf(widget))}
+          poster={resolveAsset(widget.preview)}
+          preload="metadata"
+          playsInline
+          className="h-full w-full object-cover"
+          onError={() => reportAssetError(widget.name)}
+        />
+        <PlayBadge paused={paused} />
+      </div>
+    </Html>
+  );
+}
+
+export function VideoDrawer({ widget, nodeId, index }: WidgetDrawerProps) {
+  const { resolveAsset, reportAssetError } = useAssets();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const trim = trimOf(widget);
+  useMediaPlayer(videoRef, widget, nodeId, index, true);
+
+  return (
+    <div className="w-full space-y-2">
+      <video
+        ref={videoRef}
+        src={trimmedUrl(resolveAsset(widget.name)!, trim)}
+        poster={resolveAsset(widget.preview)}
+        controls
+        playsInline
+        className="w-full max-h-96 rounded-lg border border-border bg-black"
+        onError={() => reportAssetError(widget.name)}
+      />
+      <TrimNote trim={trim} />
+    </div>
+  );
+}
+
+// Audio has no picture of its own: the card shows the preview image or an
+// icon, and the player inside it is never seen
+export function AudioPreview({ widget, nodeId, index, position, onWidgetClick }: WidgetPreviewProps) {
+  const { resolveAsset, reportAssetError } = useAssets();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const paused = useScenePlayer(audioRef, widget, nodeId, index);
+
+  return (
+    <FileCard position={position} icon="🔊" label="Audio" widget={widget} onClick={() => onWidgetClick(widget)}>
+      <audio
+        ref={audioRef}
+        src={trimmedUrl(resolveAsset(widget.name)!, trimOf(widget))}
+        preload="metadata"
+        onError={() => reportAssetError(widget.name)}
+      />
+      <PlayBadge paused={paused} />
+    </FileCard>
+  );
+}
+
+export function AudioDrawer({ widget, nodeId, index }: WidgetDrawerProps) {
+  const { resolveAsset, reportAssetError } = useAssets();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const trim = trimOf(widget);
+  useMediaPlayer(audioRef, widget, nodeId, index, true);
+
+  return (
+    <div className="w-full space-y-2">
+      {widget.preview && (
+        <img
+          src={resolveAsset(widget.preview)}
+          alt="Widget"
+          className="w-full max-h-64 object-contain rounded-lg border border-border"
+        />
+      )}
+      <audio
+        ref={audioRef}
+        src={trimmedUrl(resolveAsset(widget.name)!, trim)}
+        controls
+        className="w-full"
+        onError={() => reportAssetError(widget.name)}
+      />
+      <TrimNote trim={trim} />
+    </div>
+  );
+}
+
+export function PdfPreview({ widget, position, onWidgetClick }: WidgetPreviewProps) {
+  return <FileCard position={position} icon="📄" label="PDF" widget={widget} onClick={() => onWidgetClick(widget)} />;
+}
+
+// The browser's own PDF viewer
+export function PdfDrawer({ widget }: WidgetDrawerProps) {
+  const { resolveAsset } = useAssets();
+  const url = resolveAsset(widget.name)!;
+  return (
+    <div className="w-full">
+      <SourceButton href={url} />
+      <iframe
+        src={url}
+        title={widget.title || "PDF"}
+        className="w-full h-[32rem] rounded-lg border border-border"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import type { ReactNode } from "react";
+import { Html } from "@react-three/drei";
+import { useAssets } from "../../contexts/AssetContext";
+import { Button } from "../ui/button";
+import type { Vec3 } from "../../lib/layouts";
+
+// Debug indicator to show positions - make more visible
+export function DebugMarker({ position }: { position: [number, number, number] }) {
+  return (
+    <mesh position={position} scale={[0.3, 0.3, 0.3]}>
+      <sphereGeometry />
+      <meshBasicMaterial color="lime" />
+    </mesh>
+  );
+}
+
+export function SourceButton({ href }: { href: string }) {
+  return (
+    <div className="mb-2 flex justify-between items-center">
+      <Button variant="outline" size="sm" onClick={() => window.open(href, '_blank')}>
+        Source
+      </Button>
+    </div>
+  );
+}
+
+// Full-size picture in the drawer; hides itself and reports the path when it is missing
+export function WidgetImage({ path }: { path: string }) {
+  const { resolveAsset, reportAssetError } = useAssets();
+  return (
+    <img 
+      src={resolveAsset(path)}
+      alt="Widget" 
+      className="w-full max-h-96 object-contain rounded-lg border border-border"
+      onError={(e) => {
+        e.currentTarget.style.display = 'none';
+        reportAssetError(path);
+      }}
+    />
+  );
+}
+
+// Card for widgets that have no picture of their own: the widget's own
+// preview image if it has one, else an icon and the file name. Children go
+// on top of the card.
+export function FileCard({
+  position,
+  icon,
+  label,
+  widget,
+  onClick,
+  children
+}: {
+  position: Vec3;
+  icon: string;
+  label: string;
+  widget: { name: string; preview?: string };
+  onClick: () => void;
+  children?: ReactNode;
+}) {
+  const { resolveAsset, reportAssetError } = useAssets();
+  const fileName = widget.name.split('/').pop();
+
+  return (
+    <Html position={position} transform occlude sprite>
+      <div 
+        style={{
+          position: 'relative',
+          width: '120px',
+          height: '80px',
+          cursor: 'pointer',
+          borderRadius: '8px',
+          overflow: 'hidden',
+          border: '2px solid rgba(255, 255, 255, 0.8)',
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+          background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+        }}
+        onClick={(e) => {
+          e.stopPropagation();
+          onClick();
+        }}
+      >
+        {widget.preview ? (
+          <img
+            src={resolveAsset(widget.preview)}
+            alt={label}
+            style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+            onError={() => reportAssetError(widget.preview)}
+          />
+        ) : (
+          <div style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            height: '100%',
+            color: 'white',
+            fontSize: '11px',
+            textAlign: 'center',
+            padding: '8px',
+          }}>
+            <div style={{ fontSize: '24px', marginBottom: '6px' }}>{icon}</div>
+            <div style={{ fontWeight: 'bold', marginBottom: '2px' }}>{label}</div>
+            <div style={{ fontSize: '9px', opacity: 0.9, lineHeight: '1.2', wordBreak: 'break-all' }}>
+              {fileName}
+            </div>
+          </div>
+        )}
+        {children}
+      </div>
+    </Html>
+  );
+}
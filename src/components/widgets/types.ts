@@ -0,0 +1,26 @@
+import type { ComponentType } from "react";
+import type { Widget } from "../../types";
+import type { Vec3 } from "../../lib/layouts";
+
+// Drawn next to the node in the 3D scene; clicking it opens the drawer
+export type WidgetPreviewProps = {
+  widget: Widget;
+  nodeId: string;
+  index: number;                    // in the node's widgets
+  position: Vec3;                   // relative to the node
+  onWidgetClick: (widget: Widget) => void;
+};
+
+// The body of the widget drawer, above the widget's prose and notes
+export type WidgetDrawerProps = {
+  widget: Widget;
+  nodeId: string;
+  index: number;
+};
+
+// How one widget type is shown; see lib/widgetTypes for how types are
+// chosen and checked
+export type WidgetRenderer = {
+  Preview: ComponentType<WidgetPreviewProps>;
+  Drawer: ComponentType<WidgetDrawerProps>;
+};
@@ -0,0 +1,211 @@
+import { useEffect, useRef, useState } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import { useAssets } from "../../contexts/AssetContext";
+import { isExternalUrl } from "../../lib/assets";
+import { widgetSource } from "../../lib/widgetTypes";
+import { SourceButton, WidgetImage } from "./shared";
+import type { WidgetDrawerProps, WidgetPreviewProps } from "./types";
+
+// Older decks give website widgets a picture as their name and the page as url
+function screenshotOf(widget: WidgetPreviewProps["widget"]) {
+  return widget.preview ?? (isExternalUrl(widget.name) ? undefined : widget.name);
+}
+
+// Screenshot of the site (the widget's preview image) or a placeholder card
+export function WebsitePreview({
+  widget,
+  position,
+  index,
+  onWidgetClick
+}: WidgetPreviewProps) {
+  const url = widgetSource(widget);
+  const notes = widget.notes;
+  const [previewImageUrl, setPreviewImageUrl] = useState<string | null>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [imageError, setImageError] = useState(false);
+  const { resolveAsset, reportAssetError } = useAssets();
+  
+  // Use the position passed from parent
+  const imagePos: [number, number, number] = position;
+  
+  // Get preview image from widget's preview attribute
+  const screenshot = screenshotOf(widget);
+  useEffect(() => {
+    if (screenshot) {
+      setPreviewImageUrl(resolveAsset(screenshot));
+    }
+  }, [screenshot, resolveAsset]);
+  
+  // Handle image loading
+  const handleImageLoad = () => {
+    console.log(`✅ Website preview loaded: ${url}`);
+    setIsVisible(true);
+    setImageError(false);
+  };
+  
+  const handleImageError = () => {
+    console.error(`❌ Failed to load website preview: ${url}`);
+    setImageError(true);
+    reportAssetError(screenshot);
+  };
+  
+  // Handle visibility based on camera position
+  const { camera } = useThree();
+  useFrame(() => {
+    if (!imageRef.current) return;
+    
+    // Calculate distance to camera
+    const distance = new THREE.Vector3(...imagePos).distanceTo(camera.position);
+    
+    // Show images that are reasonably close to the camera - increased range for better visibility
+    if (distance < 50) {
+      imageRef.current.style.opacity = "1";
+      // Also ensure it's initially visible if this is the first frame
+      if (!isVisible) {
+        setIsVisible(true);
+      }
+    } else {
+      imageRef.current.style.opacity = "0.3"; // Keep slightly visible even at distance
+    }
+  });
+  
+  // Open sidebar when clicked
+  const openSidebar = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onWidgetClick(widget);
+  };
+  
+  return (
+    <>
+      {/* Website Screenshot Preview */}
+      <Html
+        key={`website-${index}`}
+        position={imagePos}
+        transform
+        occlude
+        sprite
+      >
+        <div 
+          ref={imageRef}
+          className="website-preview-container"
+          style={{
+            width: '120px',
+            height: '80px',
+            cursor: 'pointer',
+            opacity: 0,
+            transition: 'opacity 0.3s ease',
+            borderRadius: '8px',
+            overflow: 'hidden',
+            border: '2px solid rgba(255, 255, 255, 0.8)',
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+            background: 'rgba(255, 255, 255, 0.95)',
+          }}
+          onClick={openSidebar}
+        >
+          {previewImageUrl && !imageError ? (
+            <img
+              src={previewImageUrl}
+              alt="Website preview"
+              style={{
+                width: '100%',
+                height: '100%',
+                objectFit: 'cover',
+                borderRadius: '6px',
+              }}
+              onLoad={handleImageLoad}
+              onError={handleImageError}
+            />
+          ) : (
+            <div style={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              height: '100%',
+              background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+              color: 'white',
+              fontSize: '11px',
+              textAlign: 'center',
+              padding: '8px',
+            }}>
+              <div style={{ fontSize: '24px', marginBottom: '6px' }}>🌐</div>
+              <div style={{ fontWeight: 'bold', marginBottom: '2px' }}>Website</div>
+              <div style={{ fontSize: '9px', opacity: 0.9, lineHeight: '1.2' }}>
+                {url.length > 25 ? url.substring(8, 25) + '...' : url.replace(/^https?:\/\//, '')}
+              </div>
+              <div style={{ fontSize: '8px', opacity: 0.7, marginTop: '4px' }}>Click to open</div>
+            </div>
+          )}
+          
+          {/* Hover overlay */}
+          <div 
+            style={{
+              position: 'absolute',
+              top: 0,
+              left: 0,
+              right: 0,
+              bottom: 0,
+              background: 'rgba(0, 0, 0, 0.7)',
+              color: 'white',
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              opacity: 0,
+              transition: 'opacity 0.2s ease',
+              fontSize: '10px',
+              textAlign: 'center',
+              padding: '8px',
+              borderRadius: '6px',
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.opacity = '1';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.opacity = '0';
+            }}
+          >
+            <div style={{ fontSize: '14px', marginBottom: '4px' }}>🔗</div>
+            <div>Open Website</div>
+            {notes && (
+              <div style={{ fontSize: '8px', marginTop: '4px', opacity: 0.8 }}>
+                {notes.length > 40 ? `${notes.substring(0, 40)}...` : notes}
+              </div>
+            )}
+          </div>
+        </div>
+      </Html>
+    </>
+  );
+}
+
+
+// The page in an iframe; sites that refuse to be framed fall back to the screenshot
+export function WebsiteDrawer({ widget }: WidgetDrawerProps) {
+  const [iframeError, setIframeError] = useState(false);
+  const url = widgetSource(widget);
+  const screenshot = screenshotOf(widget);
+
+  return (
+    <div className="w-full">
+      <SourceButton href={url} />
+      {!iframeError ? (
+        <iframe 
+          src={url}
+          title="Website"
+          className="w-full h-96 rounded-lg border border-border"
+          sandbox="allow-scripts allow-same-origin allow-popups allow-forms"
+          onError={() => {
+            console.log('Failed to load iframe:', url);
+            setIframeError(true);
+          }}
+        />
+      ) : (
+        screenshot && <WidgetImage path={screenshot} />
+      )}
+    </div>
+  );
+}
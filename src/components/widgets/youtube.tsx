@@ -0,0 +1,157 @@
+import { useRef, useState } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import { getYouTubeVideoId } from "../../lib/youtube";
+import { widgetSource } from "../../lib/widgetTypes";
+import { DebugMarker } from "./shared";
+import type { WidgetDrawerProps, WidgetPreviewProps } from "./types";
+
+// Thumbnail with a play button; the video itself plays in the drawer
+export function YouTubePreview({
+  widget,
+  position,
+  index,
+  onWidgetClick
+}: WidgetPreviewProps) {
+  const url = widgetSource(widget);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  
+  // Use the position passed from parent
+  const previewPos: [number, number, number] = position;
+  
+  const videoId = getYouTubeVideoId(url);
+  const thumbnailUrl = videoId ? `https://img.youtube.com/vi/${videoId}/mqdefault.jpg` : '';
+  
+  // Handle visibility based on camera position
+  const { camera } = useThree();
+  useFrame(() => {
+    if (!previewRef.current) return;
+    
+    // Calculate distance to camera
+    const distance = new THREE.Vector3(...previewPos).distanceTo(camera.position);
+    
+    // Only show previews that are reasonably close to the camera
+    if (distance < 30) {
+      previewRef.current.style.opacity = "1";
+      setIsVisible(true);
+    } else {
+      previewRef.current.style.opacity = "0";
+      setIsVisible(false);
+    }
+  });
+  
+  // Open side panel view  
+  const openSidePanel = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    console.log("Opening side panel for YouTube video:", url);
+    onWidgetClick(widget);
+  };
+  
+  return (
+    <>
+      {/* Debug sphere to see where the preview should be */}
+      <DebugMarker position={previewPos} />
+      
+      {/* The YouTube preview */}
+      <group position={previewPos}>
+        <Html
+          center
+          transform
+          occlude={false}
+          distanceFactor={10}
+          position={[0, 0, 0]}
+          style={{ 
+            width: "60px", 
+            height: "45px", // 4:3 aspect ratio for YouTube thumbnails
+            transform: "rotateY(180deg)"
+          }}
+        >
+          <div 
+            ref={previewRef}
+            style={{
+              width: "100%",
+              height: "100%",
+              position: "relative",
+              cursor: "pointer",
+              borderRadius: "5px",
+              opacity: isVisible ? 1 : 0,
+              transition: "opacity 0.3s",
+              overflow: "hidden",
+              border: "2px solid #ff0000", // YouTube red border
+              boxShadow: "0 0 10px rgba(255,0,0,0.7)",
+              transform: "scaleX(-1)", // Fix inversion
+              backgroundColor: "#000"
+            }}
+            onClick={openSidePanel}
+          >
+            {thumbnailUrl ? (
+              <>
+                <img 
+                  src={thumbnailUrl}
+                  alt="YouTube thumbnail"
+                  style={{
+                    width: "100%",
+                    height: "100%",
+                    objectFit: "cover",
+                    transform: "scaleX(-1)" // Fix inversion
+                  }}
+                />
+                {/* Play button overlay */}
+                <div style={{
+                  position: "absolute",
+                  top: "50%",
+                  left: "50%",
+                  transform: "translate(-50%, -50%)",
+                  width: "20px",
+                  height: "20px",
+                  backgroundColor: "rgba(255,0,0,0.8)",
+                  borderRadius: "50%",
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  color: "white",
+                  fontSize: "8px",
+                  fontWeight: "bold"
+                }}>
+                  ▶
+                </div>
+              </>
+            ) : (
+              <div style={{
+                width: "100%",
+                height: "100%",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                backgroundColor: "#ff0000",
+                color: "white",
+                fontSize: "8px",
+                textAlign: "center"
+              }}>
+                YouTube<br/>Video
+              </div>
+            )}
+          </div>
+        </Html>
+      </group>
+    </>
+  );
+}
+
+
+export function YouTubeDrawer({ widget }: WidgetDrawerProps) {
+  const url = widgetSource(widget);
+  const videoId = getYouTubeVideoId(url);
+  return (
+    <div className="w-full">
+      <iframe 
+        src={videoId ? `https://www.youtube.com/embed/${videoId}` : url}
+        title="YouTube video"
+        className="w-full aspect-video rounded-lg border border-border"
+        allowFullScreen
+      />
+    </div>
+  );
+}
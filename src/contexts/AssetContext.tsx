@@ -0,0 +1,56 @@
+import { createContext, ReactNode, useCallback, useContext, useMemo, useState } from 'react';
+import type { KnowledgeNode } from '../types';
+import { collectAssetReferences, findUnbundledAssets, type AssetResolver, type UnresolvedAsset } from '../lib/assets';
+
+interface AssetContextType {
+  resolveAsset: (path: string | undefined) => string | undefined;
+  reportAssetError: (path: string) => void;
+  unresolvedAssets: UnresolvedAsset[];
+}
+
+const AssetContext = createContext<AssetContextType | undefined>(undefined);
+
+export function useAssets() {
+  const context = useContext(AssetContext);
+  if (!context) {
+    throw new Error('useAssets must be used within an AssetProvider');
+  }
+  return context;
+}
+
+export function AssetProvider({
+  resolver,
+  data,
+  children
+}: {
+  resolver: AssetResolver;
+  data: KnowledgeNode;
+  children: ReactNode;
+}) {
+  const unbundled = useMemo(() => findUnbundledAssets(data, resolver), [data, resolver]);
+  const [failedPaths, setFailedPaths] = useState<string[]>([]);
+
+  const reportAssetError = useCallback((path: string) => {
+    setFailedPaths(paths => (paths.includes(path) ? paths : [...paths, path]));
+  }, []);
+
+  // A path is listed once: a failed load replaces the "not bundled" warning for it
+  const unresolvedAssets = useMemo(() => {
+    const references = collectAssetReferences(data);
+    const failed = references
+      .filter(reference => failedPaths.includes(reference.path))
+      .map(reference => ({ ...reference, reason: `failed to load from ${resolver.resolveUrl(reference.path)}` }));
+    const failedKeys = new Set(failed.map(asset => `${asset.nodeId}:${asset.field}`));
+    return [...failed, ...unbundled.filter(asset => !failedKeys.has(`${asset.nodeId}:${asset.field}`))];
+  }, [data, resolver, failedPaths, unbundled]);
+
+  return (
+    <AssetContext.Provider value={{
+      resolveAsset: resolver.resolveUrl,
+      reportAssetError,
+      unresolvedAssets
+    }}>
+      {children}
+    </AssetContext.Provider>
+  );
+}
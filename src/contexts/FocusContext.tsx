@@ -1,17 +1,45 @@
-import { createContext, ReactNode, useContext, useState, useMemo } from 'react';
-import type { KnowledgeNode } from '../types';
+import { createContext, ReactNode, useContext, useEffect, useRef, useState, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { DeckPath, FocusVisit, KnowledgeNode, WidgetRef } from '../types';
+import { buildPresentationPaths, DFS_PATH_ID, findPathIndex, type PresentationPath } from '../lib/paths';
+import { isSameTalkLocation, readTalkLocation, writeCameraPose, writeTalkLocation, type TalkLocation } from '../lib/deepLink';
+import { highlightSteps } from '../lib/code';
+import { widgetTypeOf } from '../lib/widgetTypes';
+
+// The widget of a node that Next steps through before moving on
+export type SteppedWidget = WidgetRef & {
+  step: number;
+  count: number;
+};
 
 interface FocusContextType {
-  focusedNodeLabel: string | null;
-  setFocusedNodeLabel: (label: string | null) => void;
+  focusedNodeId: string | null;
+  setFocusedNodeId: (id: string | null) => void;
   focusSource: 'graph2d' | 'graph3d' | null;
   setFocusSource: (source: 'graph2d' | 'graph3d' | null) => void;
-  dfsTraversal: string[];
-  currentDfsIndex: number;
+  paths: PresentationPath[];
+  activePathId: string;
+  setActivePathId: (id: string) => void;
+  traversal: string[];              // node ids of the active path
+  currentTraversalIndex: number;
   focusNextNode: () => void;
   focusPreviousNode: () => void;
-  initializeDfsTraversal: (data: KnowledgeNode) => void;
-  setDfsIndexByLabel: (label: string) => void;
+  focusTraversalIndex: (index: number) => void;
+  initializeTraversal: (data: KnowledgeNode, deckPaths?: DeckPath[]) => void;
+  setTraversalIndexById: (id: string) => void;
+  plannedNodeId: string | null;     // last node reached by stepping along the path
+  returnToPlannedPath: () => void;
+  focusHistory: FocusVisit[];
+  historyIndex: number;
+  goToHistoryIndex: (index: number) => void;
+  goBackInHistory: () => void;
+  goForwardInHistory: () => void;
+  getNodeLabel: (id: string | null) => string | null;
+  drawerWidget: WidgetRef | null;   // last widget opened; kept while the drawer animates closed
+  isDrawerOpen: boolean;
+  openWidget: (nodeId: string, index: number) => void;
+  closeWidget: () => void;
+  steppedWidget: SteppedWidget | null;  // on the focused node, if it has one
 }
 
 const FocusContext = createContext<FocusContextType | undefined>(undefined);
@@ -24,80 +52,255 @@ export function useFocus() {
   return context;
 }
 
-function createDfsTraversal(data: KnowledgeNode): string[] {
-  const result: string[] = [];
-  const stack: KnowledgeNode[] = [data];
-  
-  while (stack.length > 0) {
-    const node = stack.pop()!;
-    result.push(node.node);
-    
-    if (node.children) {
-      // Add children in reverse order so we visit them in the correct order
-      for (let i = node.children.length - 1; i >= 0; i--) {
-        stack.push(node.children[i]);
-      }
-    }
-  }
-  
-  return result;
+function collectNodeLabels(data: KnowledgeNode, labels = new Map<string, string>()) {
+  labels.set(data.id, data.node);
+  data.children?.forEach(child => collectNodeLabels(child, labels));
+  return labels;
+}
+
+const MAX_HISTORY = 200;
+
+// First code widget of each node with more than one highlight step
+function collectSteppedWidgets(data: KnowledgeNode, stepped = new Map<string, WidgetRef & { count: number }>()) {
+  const index = data.widgets?.findIndex(widget => widgetTypeOf(widget) === 'code' && highlightSteps(widget).length > 1) ?? -1;
+  if (index !== -1) stepped.set(data.id, { nodeId: data.id, index, count: highlightSteps(data.widgets![index]).length });
+  data.children?.forEach(child => collectSteppedWidgets(child, stepped));
+  return stepped;
+}
+
+function collectWidgetCounts(data: KnowledgeNode, counts = new Map<string, number>()) {
+  counts.set(data.id, data.widgets?.length ?? 0);
+  data.children?.forEach(child => collectWidgetCounts(child, counts));
+  return counts;
 }
 
 export function FocusProvider({ children }: { children: ReactNode }) {
-  const [focusedNodeLabel, setFocusedNodeLabel] = useState<string | null>(null);
+  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
   const [focusSource, setFocusSource] = useState<'graph2d' | 'graph3d' | null>(null);
-  const [dfsTraversal, setDfsTraversal] = useState<string[]>([]);
-  const [currentDfsIndex, setCurrentDfsIndex] = useState<number>(-1);
+  const [paths, setPaths] = useState<PresentationPath[]>([]);
+  const [activePathId, setActivePathIdState] = useState<string>(DFS_PATH_ID);
+  const [currentTraversalIndex, setCurrentTraversalIndex] = useState<number>(-1);
+  // Only Next/Previous and jumps along the path move the planned position;
+  // clicking a node elsewhere is a detour that returnToPlannedPath undoes
+  const [plannedIndex, setPlannedIndex] = useState<number>(-1);
+  const [history, setHistory] = useState<{ visits: FocusVisit[]; index: number }>({ visits: [], index: -1 });
+  const [nodeLabels, setNodeLabels] = useState<Map<string, string>>(new Map());
+  const [drawerWidget, setDrawerWidget] = useState<WidgetRef | null>(null);
+  const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const [widgetCounts, setWidgetCounts] = useState<Map<string, number>>(new Map());
+  const [steppedWidgets, setSteppedWidgets] = useState<Map<string, WidgetRef & { count: number }>>(new Map());
+  // Step reached on a node; any other node starts again from the first step
+  const [highlightStep, setHighlightStep] = useState<{ nodeId: string; step: number } | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const traversal = useMemo(
+    () => paths.find(path => path.id === activePathId)?.nodeIds ?? [],
+    [paths, activePathId]
+  );
+
+  // Puts the talk where a URL says it should be. Unknown nodes, paths and
+  // widgets are ignored, so a stale link still opens the talk.
+  const applyLocation = (
+    location: TalkLocation,
+    availablePaths: PresentationPath[],
+    counts: Map<string, number>
+  ) => {
+    const path = availablePaths.find(p => p.id === (location.pathId ?? DFS_PATH_ID)) ?? availablePaths[0];
+    const nodeId = location.nodeId !== null && counts.has(location.nodeId) ? location.nodeId : null;
+
+    setActivePathIdState(path?.id ?? DFS_PATH_ID);
+    setFocusedNodeId(nodeId);
+    setFocusSource(nodeId ? 'graph3d' : null);
+    const index = nodeId && path ? path.nodeIds.indexOf(nodeId) : -1;
+    setCurrentTraversalIndex(index);
+    setPlannedIndex(index);
 
-  const initializeDfsTraversal = (data: KnowledgeNode) => {
-    const traversal = createDfsTraversal(data);
-    setDfsTraversal(traversal);
-    setCurrentDfsIndex(-1);
+    if (nodeId && location.widgetIndex !== null && location.widgetIndex < counts.get(nodeId)) {
+      setDrawerWidget({ nodeId, index: location.widgetIndex });
+      setIsDrawerOpen(true);
+    } else {
+      setIsDrawerOpen(false);
+    }
   };
 
-  const focusNextNode = () => {
-    if (dfsTraversal.length === 0) return;
-    
-    const nextIndex = (currentDfsIndex + 1) % dfsTraversal.length;
-    const nextNodeLabel = dfsTraversal[nextIndex];
-    
-    setCurrentDfsIndex(nextIndex);
-    setFocusedNodeLabel(nextNodeLabel);
+  const initializeTraversal = (data: KnowledgeNode, deckPaths?: DeckPath[]) => {
+    const builtPaths = buildPresentationPaths(data, deckPaths);
+    const counts = collectWidgetCounts(data);
+    setPaths(builtPaths);
+    setNodeLabels(collectNodeLabels(data));
+    setWidgetCounts(counts);
+    setSteppedWidgets(collectSteppedWidgets(data));
+    setHistory({ visits: [], index: -1 });
+    applyLocation(readTalkLocation(searchParams), builtPaths, counts);
+  };
+
+  // Switching paths keeps the focused node and continues from its place in
+  // the new path (or from the start when the path skips it)
+  const setActivePathId = (id: string) => {
+    const path = paths.find(p => p.id === id);
+    if (!path) return;
+    const index = focusedNodeId ? path.nodeIds.indexOf(focusedNodeId) : -1;
+    setActivePathIdState(id);
+    setCurrentTraversalIndex(index);
+    setPlannedIndex(index);
+  };
+
+  // Jump to a position in the active path (0 is the start)
+  const focusTraversalIndex = (index: number) => {
+    const nodeId = traversal[index];
+    if (nodeId === undefined) return;
+
+    setCurrentTraversalIndex(index);
+    setPlannedIndex(index);
+    setFocusedNodeId(nodeId);
     setFocusSource('graph3d');
   };
 
+  const stepped = focusedNodeId ? steppedWidgets.get(focusedNodeId) : undefined;
+  const steppedWidget: SteppedWidget | null = stepped
+    ? { ...stepped, step: highlightStep?.nodeId === focusedNodeId ? highlightStep.step : 0 }
+    : null;
+
+  // Coming back to a node starts its steps over
+  useEffect(() => {
+    setHighlightStep(null);
+  }, [focusedNodeId]);
+
+  // Next and Previous go through the highlight steps of a code widget
+  // before leaving its node
+  const focusNextNode = () => {
+    if (steppedWidget && steppedWidget.step < steppedWidget.count - 1) {
+      setHighlightStep({ nodeId: steppedWidget.nodeId, step: steppedWidget.step + 1 });
+      return;
+    }
+    if (traversal.length === 0) return;
+    focusTraversalIndex((currentTraversalIndex + 1) % traversal.length);
+  };
+
   const focusPreviousNode = () => {
-    if (dfsTraversal.length === 0) return;
-    
-    const prevIndex = currentDfsIndex <= 0 ? dfsTraversal.length - 1 : currentDfsIndex - 1;
-    const prevNodeLabel = dfsTraversal[prevIndex];
-    
-    setCurrentDfsIndex(prevIndex);
-    setFocusedNodeLabel(prevNodeLabel);
-    setFocusSource('graph3d');
+    if (steppedWidget && steppedWidget.step > 0) {
+      setHighlightStep({ nodeId: steppedWidget.nodeId, step: steppedWidget.step - 1 });
+      return;
+    }
+    if (traversal.length === 0) return;
+    focusTraversalIndex(currentTraversalIndex <= 0 ? traversal.length - 1 : currentTraversalIndex - 1);
   };
 
-  const setDfsIndexByLabel = (label: string) => {
-    const index = dfsTraversal.findIndex(nodeLabel => nodeLabel === label);
+  // Nodes outside the active path leave the position alone, so Next carries
+  // on where the speaker was before the detour
+  const setTraversalIndexById = (id: string) => {
+    const index = findPathIndex(traversal, id, Math.max(currentTraversalIndex, 0));
     if (index !== -1) {
-      setCurrentDfsIndex(index);
+      setCurrentTraversalIndex(index);
     }
   };
 
+  const plannedNodeId = plannedIndex >= 0 ? traversal[plannedIndex] ?? null : null;
+
+  const returnToPlannedPath = () => {
+    if (plannedIndex >= 0) focusTraversalIndex(plannedIndex);
+  };
+
+  // Every node that gets focus is recorded, whatever focused it. Moving
+  // through the history only moves the pointer: the node it lands on is
+  // already the current entry, so nothing new is recorded.
+  useEffect(() => {
+    if (!focusedNodeId) return;
+    setHistory(current => {
+      if (current.visits[current.index]?.nodeId === focusedNodeId) return current;
+      const visits = [...current.visits.slice(0, current.index + 1), { nodeId: focusedNodeId, visitedAt: Date.now() }]
+        .slice(-MAX_HISTORY);
+      return { visits, index: visits.length - 1 };
+    });
+  }, [focusedNodeId]);
+
+  const goToHistoryIndex = (index: number) => {
+    const visit = history.visits[index];
+    if (!visit) return;
+    setHistory({ ...history, index });
+    setFocusedNodeId(visit.nodeId);
+    setFocusSource('graph3d');
+    setTraversalIndexById(visit.nodeId);
+  };
+
+  const goBackInHistory = () => goToHistoryIndex(history.index - 1);
+  const goForwardInHistory = () => goToHistoryIndex(history.index + 1);
+
+  const getNodeLabel = (id: string | null) => (id ? nodeLabels.get(id) ?? null : null);
+
+  const openWidget = (nodeId: string, index: number) => {
+    setDrawerWidget({ nodeId, index });
+    setIsDrawerOpen(true);
+  };
+
+  const closeWidget = () => setIsDrawerOpen(false);
+
+  // Keep the URL in step with the talk. Focusing another node adds a history
+  // entry, so back/forward step through focus; opening a widget or switching
+  // paths only updates the current entry.
+  const initialized = paths.length > 0;
+  const location = useMemo<TalkLocation>(() => ({
+    nodeId: focusedNodeId,
+    widgetIndex: isDrawerOpen && drawerWidget?.nodeId === focusedNodeId ? drawerWidget.index : null,
+    pathId: activePathId === DFS_PATH_ID ? null : activePathId,
+  }), [focusedNodeId, isDrawerOpen, drawerWidget, activePathId]);
+
+  const latest = useRef({ searchParams, setSearchParams, location, paths, widgetCounts, applyLocation });
+  latest.current = { searchParams, setSearchParams, location, paths, widgetCounts, applyLocation };
+
+  useEffect(() => {
+    if (!initialized) return;
+    const { searchParams, setSearchParams } = latest.current;
+    const linked = readTalkLocation(searchParams);
+    if (isSameTalkLocation(linked, location)) return;
+
+    const nodeChanged = linked.nodeId !== location.nodeId;
+    let next = writeTalkLocation(searchParams, location);
+    // The camera flies to the new node, so the old pose no longer applies
+    if (nodeChanged) next = writeCameraPose(next, null);
+    setSearchParams(next, { replace: !nodeChanged });
+  }, [initialized, location]);
+
+  // Back/forward (or a link inside the app) changed the URL: follow it
+  useEffect(() => {
+    if (!initialized) return;
+    const { location, paths, widgetCounts, applyLocation } = latest.current;
+    const linked = readTalkLocation(searchParams);
+    if (isSameTalkLocation(linked, location)) return;
+    applyLocation(linked, paths, widgetCounts);
+  }, [initialized, searchParams]);
+
   return (
-    <FocusContext.Provider value={{ 
-      focusedNodeLabel, 
-      setFocusedNodeLabel,
+    <FocusContext.Provider value={{
+      focusedNodeId,
+      setFocusedNodeId,
       focusSource,
       setFocusSource,
-      dfsTraversal,
-      currentDfsIndex,
+      paths,
+      activePathId,
+      setActivePathId,
+      traversal,
+      currentTraversalIndex,
       focusNextNode,
       focusPreviousNode,
-      initializeDfsTraversal,
-      setDfsIndexByLabel
+      focusTraversalIndex,
+      initializeTraversal,
+      setTraversalIndexById,
+      plannedNodeId,
+      returnToPlannedPath,
+      focusHistory: history.visits,
+      historyIndex: history.index,
+      goToHistoryIndex,
+      goBackInHistory,
+      goForwardInHistory,
+      getNodeLabel,
+      drawerWidget,
+      isDrawerOpen,
+      openWidget,
+      closeWidget,
+      steppedWidget
     }}>
       {children}
     </FocusContext.Provider>
   );
-}
\ No newline at end of file
+}
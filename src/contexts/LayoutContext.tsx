@@ -0,0 +1,103 @@
+import { createContext, ReactNode, useCallback, useContext, useMemo, useState } from 'react';
+import type { KnowledgeNode } from '../types';
+import { buildLayout, DEFAULT_LAYOUT_ID, type Edge3D, type LayoutEngineId, type Node3D } from '../lib/layouts';
+import { ancestorIds, collapseBelowDepth, countDescendants, pruneCollapsed } from '../lib/collapse';
+
+interface LayoutContextType {
+  layoutId: LayoutEngineId;
+  setLayoutId: (id: LayoutEngineId) => void;
+  nodes: Node3D[];
+  edges: Edge3D[];
+  getNode: (id: string | null) => Node3D | undefined;    // visible nodes only
+  visibleTree: KnowledgeNode;       // the tree with collapsed subtrees cut off
+  isCollapsed: (id: string) => boolean;
+  hiddenCount: (id: string) => number;                  // descendants hidden by collapsing this node
+  hasChildren: (id: string) => boolean;
+  toggleCollapsed: (id: string) => void;
+  expandAll: () => void;
+  collapseToDepth: (levels: number) => void;
+  revealNode: (id: string) => void;                     // expand whatever hides the node
+}
+
+const LayoutContext = createContext<LayoutContextType | undefined>(undefined);
+
+export function useLayout() {
+  const context = useContext(LayoutContext);
+  if (!context) {
+    throw new Error('useLayout must be used within a LayoutProvider');
+  }
+  return context;
+}
+
+// The 3D layout is computed here once per deck and engine, and every view
+// reads it from context, so positions (and camera moves based on them) are
+// the same wherever and whenever they are looked up. Collapsed subtrees are
+// left out before laying out, so the rest re-flows to use the space.
+export function LayoutProvider({
+  data,
+  defaultLayout = DEFAULT_LAYOUT_ID,
+  expandDepth,
+  children
+}: {
+  data: KnowledgeNode;
+  defaultLayout?: LayoutEngineId;
+  expandDepth?: number;             // levels shown at first; everything shown when absent
+  children: ReactNode;
+}) {
+  const [layoutId, setLayoutId] = useState<LayoutEngineId>(defaultLayout);
+  const [collapsed, setCollapsed] = useState<Set<string>>(
+    () => (expandDepth ? collapseBelowDepth(data, expandDepth) : new Set())
+  );
+  const descendantCounts = useMemo(() => countDescendants(data), [data]);
+  const visibleTree = useMemo(() => pruneCollapsed(data, collapsed), [data, collapsed]);
+  const { nodes, edges } = useMemo(() => buildLayout(visibleTree, layoutId), [visibleTree, layoutId]);
+  const idToNode = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes]);
+
+  const getNode = useCallback((id: string | null) => (id ? idToNode.get(id) : undefined), [idToNode]);
+
+  const isCollapsed = useCallback((id: string) => collapsed.has(id), [collapsed]);
+  const hiddenCount = useCallback((id: string) => (collapsed.has(id) ? descendantCounts.get(id) ?? 0 : 0), [collapsed, descendantCounts]);
+  const hasChildren = useCallback((id: string) => (descendantCounts.get(id) ?? 0) > 0, [descendantCounts]);
+
+  const toggleCollapsed = useCallback((id: string) => {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const expandAll = useCallback(() => setCollapsed(new Set()), []);
+  const collapseToDepth = useCallback((levels: number) => setCollapsed(collapseBelowDepth(data, levels)), [data]);
+
+  const revealNode = useCallback((id: string) => {
+    setCollapsed(current => {
+      const hiding = ancestorIds(data, id).filter(ancestor => current.has(ancestor));
+      if (hiding.length === 0) return current;
+      const next = new Set(current);
+      hiding.forEach(ancestor => next.delete(ancestor));
+      return next;
+    });
+  }, [data]);
+
+  return (
+    <LayoutContext.Provider value={{
+      layoutId,
+      setLayoutId,
+      nodes,
+      edges,
+      getNode,
+      visibleTree,
+      isCollapsed,
+      hiddenCount,
+      hasChildren,
+      toggleCollapsed,
+      expandAll,
+      collapseToDepth,
+      revealNode
+    }}>
+      {children}
+    </LayoutContext.Provider>
+  );
+}
@@ -0,0 +1,75 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react';
+import type { KnowledgeNode } from '../types';
+import { useFocus } from './FocusContext';
+import { ancestorIds } from '../lib/collapse';
+import type { RevealMode } from '../lib/reveal';
+
+type NodeVisibility = 'visible' | 'hidden' | 'ghost';
+
+interface RevealContextType {
+  revealMode: RevealMode;
+  setRevealMode: (mode: RevealMode) => void;
+  visibility: (id: string) => NodeVisibility;
+  growing: { ids: Set<string>; key: number };   // nodes revealed by the latest step; key changes per step
+  resetReveal: () => void;
+}
+
+const RevealContext = createContext<RevealContextType | undefined>(undefined);
+
+export function useReveal() {
+  const context = useContext(RevealContext);
+  if (!context) {
+    throw new Error('useReveal must be used within a RevealProvider');
+  }
+  return context;
+}
+
+// Tracks which nodes the talk has reached. Visits are recorded whatever the
+// mode, so switching reveal on halfway through shows what was covered. A
+// node's ancestors count as reached with it, so its branch stays connected.
+export function RevealProvider({
+  data,
+  defaultMode = 'off',
+  children
+}: {
+  data: KnowledgeNode;
+  defaultMode?: RevealMode;
+  children: ReactNode;
+}) {
+  const { focusedNodeId } = useFocus();
+  const [revealMode, setRevealMode] = useState<RevealMode>(defaultMode);
+  const [revealed, setRevealed] = useState<Set<string>>(() => new Set([data.id]));
+  const [growing, setGrowing] = useState<{ ids: Set<string>; key: number }>({ ids: new Set(), key: 0 });
+
+  useEffect(() => {
+    if (!focusedNodeId) return;
+    const added = [...ancestorIds(data, focusedNodeId), focusedNodeId].filter(id => !revealed.has(id));
+    if (added.length === 0) return;
+    setRevealed(new Set([...revealed, ...added]));
+    setGrowing(previous => ({ ids: new Set(added), key: previous.key + 1 }));
+  }, [data, focusedNodeId, revealed]);
+
+  const visibility = useCallback((id: string): NodeVisibility => {
+    if (revealMode === 'off' || revealed.has(id)) return 'visible';
+    return revealMode === 'hide' ? 'hidden' : 'ghost';
+  }, [revealMode, revealed]);
+
+  // Start over from the root (and wherever the talk currently is)
+  const resetReveal = useCallback(() => {
+    const current = focusedNodeId ? [...ancestorIds(data, focusedNodeId), focusedNodeId] : [];
+    setRevealed(new Set([data.id, ...current]));
+    setGrowing(previous => ({ ids: new Set(), key: previous.key + 1 }));
+  }, [data, focusedNodeId]);
+
+  return (
+    <RevealContext.Provider value={{
+      revealMode,
+      setRevealMode,
+      visibility,
+      growing,
+      resetReveal
+    }}>
+      {children}
+    </RevealContext.Provider>
+  );
+}
@@ -0,0 +1,72 @@
+import { createContext, ReactNode, useCallback, useContext, useMemo, useState } from 'react';
+import type { KnowledgeNode } from '../types';
+import { useFocus } from './FocusContext';
+import { buildSearchIndex, searchDeck } from '../lib/search';
+
+interface SearchContextType {
+  searchTerm: string;
+  setSearchTerm: (term: string) => void;
+  matchIds: string[];               // matching nodes in tree order
+  isSearching: boolean;
+  isMatch: (id: string) => boolean;
+  focusNextMatch: () => void;
+  focusPreviousMatch: () => void;
+}
+
+const SearchContext = createContext<SearchContextType | undefined>(undefined);
+
+export function useSearch() {
+  const context = useContext(SearchContext);
+  if (!context) {
+    throw new Error('useSearch must be used within a SearchProvider');
+  }
+  return context;
+}
+
+// The search term both views highlight. A node matches when its label or
+// prose does, or the text of one of its widgets (see lib/search).
+export function SearchProvider({ data, children }: { data: KnowledgeNode; children: ReactNode }) {
+  const { focusedNodeId, setFocusedNodeId, setFocusSource, setTraversalIndexById } = useFocus();
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const index = useMemo(() => buildSearchIndex(data), [data]);
+
+  const matchIds = useMemo(() => {
+    // Every match is highlighted, not just the best few, so only clear ones
+    // count; the palette still lists the fuzzy ones
+    const matched = new Set(searchDeck(index, searchTerm, { limit: index.length, strict: true }).map(result => result.entry.nodeId));
+    return [...new Set(index.map(entry => entry.nodeId))].filter(id => matched.has(id));
+  }, [index, searchTerm]);
+
+  const matchSet = useMemo(() => new Set(matchIds), [matchIds]);
+  const isMatch = useCallback((id: string) => matchSet.has(id), [matchSet]);
+
+  const focusMatch = useCallback((step: 1 | -1) => {
+    if (matchIds.length === 0) return;
+    const current = focusedNodeId ? matchIds.indexOf(focusedNodeId) : -1;
+    const next = current === -1
+      ? (step === 1 ? 0 : matchIds.length - 1)
+      : (current + step + matchIds.length) % matchIds.length;
+    const id = matchIds[next];
+    setFocusedNodeId(id);
+    setFocusSource('graph3d');
+    setTraversalIndexById(id);
+  }, [matchIds, focusedNodeId, setFocusedNodeId, setFocusSource, setTraversalIndexById]);
+
+  const focusNextMatch = useCallback(() => focusMatch(1), [focusMatch]);
+  const focusPreviousMatch = useCallback(() => focusMatch(-1), [focusMatch]);
+
+  return (
+    <SearchContext.Provider value={{
+      searchTerm,
+      setSearchTerm,
+      matchIds,
+      isSearching: searchTerm.trim() !== '',
+      isMatch,
+      focusNextMatch,
+      focusPreviousMatch
+    }}>
+      {children}
+    </SearchContext.Provider>
+  );
+}
@@ -0,0 +1,111 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { AudioCaption, DeckSpeech } from '../types';
+import { useAssets } from './AssetContext';
+import { markdownToPlainText } from '../lib/markdown';
+import {
+  DEFAULT_SPEECH_SETTINGS,
+  isSpeechSupported,
+  loadSpeechSettings,
+  playRecording,
+  saveSpeechSettings,
+  speak as speakText,
+  type SpeechSettings
+} from '../lib/speech';
+
+// Anything that can be read aloud: a node or a widget
+export type Narration = {
+  prose?: string;
+  audio?: string;
+  audioCaptions?: AudioCaption[];
+};
+
+interface SpeechContextType {
+  settings: SpeechSettings;
+  updateSettings: (changes: Partial<SpeechSettings>) => void;
+  resetSettings: () => void;        // back to the deck's defaults
+  voices: SpeechSynthesisVoice[];   // every voice the browser has installed
+  speak: (text: string) => Promise<void>;
+  narrate: (item: Narration) => Promise<void>;  // the recording if there is one, else the prose
+}
+
+const SpeechContext = createContext<SpeechContextType | undefined>(undefined);
+
+export function useSpeech() {
+  const context = useContext(SpeechContext);
+  if (!context) {
+    throw new Error('useSpeech must be used within a SpeechProvider');
+  }
+  return context;
+}
+
+function fromDeck(speech?: DeckSpeech): Partial<SpeechSettings> {
+  if (!speech) return {};
+  const settings: Partial<SpeechSettings> = {};
+  if (speech.voice) settings.voiceURI = speech.voice;
+  if (speech.lang) settings.lang = speech.lang;
+  if (speech.rate !== undefined) settings.rate = speech.rate;
+  if (speech.pitch !== undefined) settings.pitch = speech.pitch;
+  if (speech.volume !== undefined) settings.volume = speech.volume;
+  return settings;
+}
+
+// Everything in a talk that reads aloud goes through here. The deck's
+// "speech" entry sets the defaults; what the listener changes on top is
+// remembered per deck in localStorage.
+export function SpeechProvider({
+  slug,
+  deckSpeech,
+  children
+}: {
+  slug: string;
+  deckSpeech?: DeckSpeech;
+  children: ReactNode;
+}) {
+  const defaults = useMemo(() => ({ ...DEFAULT_SPEECH_SETTINGS, ...fromDeck(deckSpeech) }), [deckSpeech]);
+  const [overrides, setOverrides] = useState<Partial<SpeechSettings>>(() => loadSpeechSettings(slug));
+  const settings = useMemo(() => ({ ...defaults, ...overrides }), [defaults, overrides]);
+
+  useEffect(() => {
+    saveSpeechSettings(slug, overrides);
+  }, [slug, overrides]);
+
+  // Voices load asynchronously in most browsers
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  useEffect(() => {
+    if (!isSpeechSupported()) return;
+    const loadVoices = () => setVoices(speechSynthesis.getVoices());
+    loadVoices();
+    speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<SpeechSettings>) => {
+    setOverrides(current => ({ ...current, ...changes }));
+  }, []);
+
+  const resetSettings = useCallback(() => setOverrides({}), []);
+
+  const speak = useCallback((text: string) => speakText(text, settings), [settings]);
+
+  const { resolveAsset } = useAssets();
+  // Prose is Markdown; the voice and the captions get it without the markup
+  const narrate = useCallback((item: Narration) => {
+    const prose = markdownToPlainText(item.prose ?? '');
+    const url = resolveAsset(item.audio);
+    if (url) return playRecording(url, prose, item.audioCaptions, settings.volume);
+    return speak(prose);
+  }, [resolveAsset, settings.volume, speak]);
+
+  return (
+    <SpeechContext.Provider value={{
+      settings,
+      updateSettings,
+      resetSettings,
+      voices,
+      speak,
+      narrate
+    }}>
+      {children}
+    </SpeechContext.Provider>
+  );
+}
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useFocus } from "@/contexts/FocusContext";
+import { toggleMedia } from "@/lib/mediaPlayback";
+import { openPresenterChannel, type AudienceState, type PresenterChannel, type PresenterCommand } from "@/lib/presenterChannel";
+
+const THUMBNAIL_WIDTH = 480;
+const THUMBNAIL_INTERVAL_MS = 1500;
+
+// Runs in the audience window: applies commands from the presenter window to
+// the focus context and reports the resulting state (plus a thumbnail of the
+// 3D scene) back. Returns a callback for handing over the scene's canvas.
+export function useAudienceSync(slug: string) {
+  const focus = useFocus();
+  const focusRef = useRef(focus);
+  focusRef.current = focus;
+
+  const channelRef = useRef<PresenterChannel | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [presenterConnected, setPresenterConnected] = useState(false);
+
+  const {
+    focusedNodeId,
+    traversal,
+    currentTraversalIndex,
+    activePathId,
+    paths,
+    drawerWidget,
+    isDrawerOpen
+  } = focus;
+
+  const buildState = useCallback((): AudienceState => {
+    const nextIndex = traversal.length > 0 ? (currentTraversalIndex + 1) % traversal.length : -1;
+    return {
+      focusedNodeId,
+      nextNodeId: nextIndex >= 0 ? traversal[nextIndex] : null,
+      activePathId,
+      paths: paths.map(path => ({ id: path.id, name: path.name })),
+      position: currentTraversalIndex + 1,
+      pathLength: traversal.length,
+      openWidget: isDrawerOpen ? drawerWidget : null,
+    };
+  }, [focusedNodeId, traversal, currentTraversalIndex, activePathId, paths, drawerWidget, isDrawerOpen]);
+
+  const buildStateRef = useRef(buildState);
+  buildStateRef.current = buildState;
+
+  useEffect(() => {
+    const channel = openPresenterChannel(slug);
+    channelRef.current = channel;
+
+    const apply = (command: PresenterCommand) => {
+      const actions = focusRef.current;
+      switch (command.type) {
+        case "next":
+          actions.focusNextNode();
+          break;
+        case "previous":
+          actions.focusPreviousNode();
+          break;
+        case "first":
+          actions.focusTraversalIndex(0);
+          break;
+        case "last":
+          actions.focusTraversalIndex(actions.traversal.length - 1);
+          break;
+        case "focus":
+          actions.setFocusedNodeId(command.nodeId);
+          actions.setFocusSource('graph3d');
+          actions.setTraversalIndexById(command.nodeId);
+          break;
+        case "open-widget":
+          actions.openWidget(command.widget.nodeId, command.widget.index);
+          break;
+        case "close-widget":
+          actions.closeWidget();
+          break;
+        case "play-media":
+          toggleMedia(actions.focusedNodeId);
+          break;
+        case "set-path":
+          actions.setActivePathId(command.pathId);
+          break;
+      }
+    };
+
+    const unsubscribe = channel.subscribe(message => {
+      if (message.kind === "hello") {
+        setPresenterConnected(true);
+        channel.post({ kind: "state", state: buildStateRef.current() });
+      } else if (message.kind === "bye") {
+        setPresenterConnected(false);
+      } else if (message.kind === "command") {
+        apply(message.command);
+      }
+    });
+
+    // A presenter window that is already open finds out about the reload
+    channel.post({ kind: "state", state: buildStateRef.current() });
+
+    return () => {
+      unsubscribe();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [slug]);
+
+  // Report every change of focus, path or drawer
+  useEffect(() => {
+    channelRef.current?.post({ kind: "state", state: buildState() });
+  }, [buildState]);
+
+  // Only capture the scene while someone is looking at it. The canvas keeps
+  // its drawing buffer (see Graph3D), so it can be copied at any time.
+  useEffect(() => {
+    if (!presenterConnected) return;
+
+    const capture = () => {
+      const source = canvasRef.current;
+      if (!source || source.width === 0) return;
+      const thumbnail = document.createElement("canvas");
+      thumbnail.width = THUMBNAIL_WIDTH;
+      thumbnail.height = Math.round((source.height / source.width) * THUMBNAIL_WIDTH);
+      thumbnail.getContext("2d")?.drawImage(source, 0, 0, thumbnail.width, thumbnail.height);
+      channelRef.current?.post({ kind: "thumbnail", dataUrl: thumbnail.toDataURL("image/jpeg", 0.7) });
+    };
+
+    capture();
+    const interval = setInterval(capture, THUMBNAIL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [presenterConnected]);
+
+  return useCallback((canvas: HTMLCanvasElement) => {
+    canvasRef.current = canvas;
+  }, []);
+}
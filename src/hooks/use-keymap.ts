@@ -0,0 +1,34 @@
+import { useEffect, useRef } from "react";
+import { matchKey, type KeyAction, type Keymap } from "@/lib/keymap";
+
+export type KeymapHandlers = Partial<Record<KeyAction, (index: number) => void>>;
+
+// Keys typed into form fields are left alone, and so are Enter and Space on
+// buttons and links, which already activate them
+function shouldIgnore(event: KeyboardEvent) {
+  if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return true;
+  const target = event.target as HTMLElement | null;
+  if (!target) return false;
+  if (target.isContentEditable || target.closest("input, textarea, select, [role='combobox'], [role='listbox']")) return true;
+  return (event.key === "Enter" || event.key === " ") && !!target.closest("button, a");
+}
+
+// Listens on the whole window and calls the handler bound to the pressed key
+export function useKeymap(keymap: Keymap, handlers: KeymapHandlers) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (shouldIgnore(event)) return;
+      const match = matchKey(keymap, event.key);
+      const handler = match && handlersRef.current[match.action];
+      if (!handler) return;
+      event.preventDefault();
+      handler(match.index);
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [keymap]);
+}
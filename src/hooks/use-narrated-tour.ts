@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useFocus } from "@/contexts/FocusContext";
+import { useLayout } from "@/contexts/LayoutContext";
+import { useSpeech } from "@/contexts/SpeechContext";
+import { pauseSpeaking, resumeSpeaking, stopSpeaking } from "@/lib/speech";
+
+export type TourStatus = "idle" | "playing" | "paused";
+
+export type TourOptions = {
+  dwellMs: number;                  // time on nodes without prose
+  readWidgets: boolean;             // also open each widget with prose or audio and read it
+};
+
+// Time on a node without prose unless the options say otherwise
+export const DEFAULT_TOUR_DWELL_SECONDS = 5;
+
+const CAMERA_SETTLE_MS = 1200;      // the fly-to animation in Graph3D takes 1s
+const DRAWER_SETTLE_MS = 800;
+const TICK_MS = 100;
+
+// Walks the active path on its own: focuses each node, waits for the camera,
+// reads the node's prose or plays its recording (and optionally its
+// widgets') and moves on. Starts
+// from the focused node when it is on the path, otherwise from the start.
+export function useNarratedTour(options: TourOptions = { dwellMs: DEFAULT_TOUR_DWELL_SECONDS * 1000, readWidgets: false }) {
+  const focus = useFocus();
+  const focusRef = useRef(focus);
+  focusRef.current = focus;
+
+  const { getNode } = useLayout();
+  const getNodeRef = useRef(getNode);
+  getNodeRef.current = getNode;
+
+  const { narrate } = useSpeech();
+  const narrateRef = useRef(narrate);
+  narrateRef.current = narrate;
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const [status, setStatus] = useState<TourStatus>("idle");
+  const runRef = useRef(0);         // bumped to stop the tour that is running
+  const pausedRef = useRef(false);
+  const skipRef = useRef(false);    // set to cut the current node short
+
+  const isActive = (run: number) => runRef.current === run && !skipRef.current;
+
+  // Resolves true after `ms` of unpaused time, false if cut short
+  const wait = (run: number, ms: number) => new Promise<boolean>(resolve => {
+    let left = ms;
+    const tick = () => {
+      if (!isActive(run)) return resolve(false);
+      if (!pausedRef.current) left -= TICK_MS;
+      if (left <= 0) return resolve(true);
+      setTimeout(tick, TICK_MS);
+    };
+    setTimeout(tick, TICK_MS);
+  });
+
+  const tour = async (run: number) => {
+    const start = focusRef.current;
+    let index = start.focusedNodeId !== null && start.traversal[start.currentTraversalIndex] === start.focusedNodeId
+      ? start.currentTraversalIndex
+      : 0;
+
+    while (runRef.current === run && index < focusRef.current.traversal.length) {
+      skipRef.current = false;
+      const nodeId = focusRef.current.traversal[index];
+      focusRef.current.focusTraversalIndex(index);
+
+      if (await wait(run, CAMERA_SETTLE_MS)) {
+        // Looked up only now: the node may have been inside a collapsed subtree
+        const node = getNodeRef.current(nodeId);
+        const { dwellMs, readWidgets } = optionsRef.current;
+
+        if (node?.prose || node?.audio) await narrateRef.current(node);
+        else await wait(run, dwellMs);
+
+        if (readWidgets) {
+          const widgets = node?.widgets ?? [];
+          for (let i = 0; i < widgets.length && isActive(run); i++) {
+            if (!widgets[i].prose && !widgets[i].audio) continue;
+            focusRef.current.openWidget(nodeId, i);
+            if (await wait(run, DRAWER_SETTLE_MS)) await narrateRef.current(widgets[i]);
+            focusRef.current.closeWidget();
+          }
+        }
+      }
+      index += 1;
+    }
+
+    if (runRef.current === run) setStatus("idle");
+  };
+
+  const stop = useCallback(() => {
+    runRef.current += 1;
+    pausedRef.current = false;
+    stopSpeaking();
+    setStatus("idle");
+  }, []);
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    pauseSpeaking();
+    setStatus("paused");
+  }, []);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    resumeSpeaking();
+    setStatus("playing");
+  }, []);
+
+  const play = () => {
+    if (status === "paused") return resume();
+    stopSpeaking();
+    runRef.current += 1;
+    pausedRef.current = false;
+    setStatus("playing");
+    void tour(runRef.current);
+  };
+
+  const skip = useCallback(() => {
+    skipRef.current = true;
+    stopSpeaking();
+  }, []);
+
+  // Leaving the talk ends the tour
+  useEffect(() => () => {
+    runRef.current += 1;
+    stopSpeaking();
+  }, []);
+
+  return { status, play, pause, resume, skip, stop };
+}
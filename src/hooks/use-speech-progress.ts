@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+import { getRecordingPlayback, getSpeechProgress, subscribeSpeech } from "@/lib/speech";
+
+// What is being read aloud right now, word by word; null when silent
+export function useSpeechProgress() {
+  return useSyncExternalStore(subscribeSpeech, getSpeechProgress, () => null);
+}
+
+// Position of the recorded narration that is playing; null when none is
+export function useRecordingPlayback() {
+  return useSyncExternalStore(subscribeSpeech, getRecordingPlayback, () => null);
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { useAssets } from "@/contexts/AssetContext";
+import type { Widget } from "@/types";
+
+// Files are fetched once, however many previews and drawers show them
+const loadedFiles = new Map<string, Promise<string>>();
+
+function loadFile(url: string) {
+  if (!loadedFiles.has(url)) {
+    loadedFiles.set(url, fetch(url).then((response) => {
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      return response.text();
+    }));
+  }
+  return loadedFiles.get(url)!;
+}
+
+// The text of a code or Markdown widget: inline "source", or the file named
+// by the widget. It is undefined while the file loads and null when it
+// cannot be read.
+export function useTextSource(widget: Widget) {
+  const { resolveAsset, reportAssetError } = useAssets();
+  const [loaded, setLoaded] = useState<{ name: string; text: string | null } | null>(null);
+  const inline = widget.source;
+
+  useEffect(() => {
+    if (inline !== undefined) return;
+    let cancelled = false;
+    loadFile(resolveAsset(widget.name)!)
+      .then((text) => !cancelled && setLoaded({ name: widget.name, text }))
+      .catch(() => {
+        if (cancelled) return;
+        setLoaded({ name: widget.name, text: null });
+        reportAssetError(widget.name);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [inline, widget.name, resolveAsset, reportAssetError]);
+
+  if (inline !== undefined) return inline;
+  return loaded?.name === widget.name ? loaded.text : undefined;
+}
@@ -0,0 +1,144 @@
+import type { KnowledgeNode } from "../types";
+import { markdownImages } from "./markdown";
+import { CODE_EXTENSIONS } from "./code";
+
+export type AssetSource = "external" | "bundled" | "public" | "fallback";
+
+export type ResolvedAsset = {
+  url: string;
+  source: AssetSource;
+};
+
+export type AssetReference = {
+  path: string;
+  nodeId: string;
+  nodeLabel: string;
+  field: string;          // e.g. "widgets[0].name"
+};
+
+export type UnresolvedAsset = AssetReference & {
+  reason: string;
+};
+
+export type AssetResolver = {
+  resolve: (path: string) => ResolvedAsset;
+  resolveUrl: (path: string | undefined) => string | undefined;
+};
+
+// Files a deck can ship in its folder and show or play itself: images, audio,
+// video, PDFs, Markdown and source code (bundled by the glob in lib/decks)
+const MEDIA_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "bmp", "webp", "svg", "mp3", "ogg", "wav", "m4a", "mp4", "webm", "mov", "m4v", "pdf", "md", "markdown", ...CODE_EXTENSIONS];
+
+export function isExternalUrl(path: string) {
+  return /^(https?:|data:|blob:)/i.test(path);
+}
+
+// The link in a widget name. Some older decks put a folder in front of it
+// ("examples/INFORMS/https://www.youtube.com/…"); the link is what follows.
+export function linkInName(name: string) {
+  const start = name.search(/\/https?:\/\//i);
+  return start >= 0 ? name.slice(start + 1) : name;
+}
+
+// True for paths with one of those extensions, whether in the deck folder, in
+// /public or at a URL; anything else (a web page, a YouTube link) is linked to
+// rather than loaded.
+export function isMediaPath(path: string) {
+  const clean = path.split(/[?#]/)[0].toLowerCase();
+  return MEDIA_EXTENSIONS.some((ext) => clean.endsWith(`.${ext}`));
+}
+
+function joinUrl(base: string, path: string) {
+  return `${base.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+}
+
+// Resolution order for a deck living in data/<folder>:
+//   1. absolute URLs are used as they are
+//   2. "/x.png" is a file in /public, served under the app's base URL
+//   3. relative paths are looked up among the bundled files, first relative to
+//      the deck folder ("proton.png"), then relative to data/ ("examples/physics/proton.png")
+//   4. anything else falls back to the same path under /public/<folder>, which is
+//      where a deck ends up when it is deployed without bundling its media
+export function createAssetResolver({
+  folder,
+  bundledUrls,
+  baseUrl = "/",
+}: {
+  folder: string | null;
+  bundledUrls: Map<string, string>;
+  baseUrl?: string;
+}): AssetResolver {
+  const resolve = (path: string): ResolvedAsset => {
+    if (isExternalUrl(path)) return { url: path, source: "external" };
+    if (path.startsWith("/")) return { url: joinUrl(baseUrl, path), source: "public" };
+
+    const relative = path.replace(/^\.\//, "");
+    const candidates = folder ? [`${folder}/${relative}`, relative] : [relative];
+    for (const candidate of candidates) {
+      const url = bundledUrls.get(candidate);
+      if (url) return { url, source: "bundled" };
+    }
+
+    const inFolder = !folder || relative.startsWith(`${folder}/`) ? relative : `${folder}/${relative}`;
+    return { url: joinUrl(baseUrl, inFolder), source: "fallback" };
+  };
+
+  return {
+    resolve,
+    resolveUrl: (path) => (path ? resolve(path).url : undefined),
+  };
+}
+
+// Every media file a deck refers to: widget images, website previews,
+// image-URL node labels, recorded narration and images in prose and notes.
+export function collectAssetReferences(root: KnowledgeNode): AssetReference[] {
+  const references: AssetReference[] = [];
+
+  const addImages = (base: { nodeId: string; nodeLabel: string }, text: string | undefined, field: string) => {
+    markdownImages(text ?? "")
+      .filter((path) => !isExternalUrl(path))
+      .forEach((path) => references.push({ ...base, path, field }));
+  };
+
+  function visit(node: KnowledgeNode) {
+    const base = { nodeId: node.id, nodeLabel: node.node };
+    if (isExternalUrl(node.node) && isMediaPath(node.node)) {
+      references.push({ ...base, path: node.node, field: "node" });
+    }
+    if (node.audio && !isExternalUrl(node.audio)) {
+      references.push({ ...base, path: node.audio, field: "audio" });
+    }
+    addImages(base, node.prose, "prose");
+    node.widgets?.forEach((widget, index) => {
+      // Inline code and formulas have a name only to label them
+      if (widget.name && widget.source === undefined && widget.latex === undefined && !isExternalUrl(linkInName(widget.name)) && isMediaPath(widget.name)) {
+        references.push({ ...base, path: widget.name, field: `widgets[${index}].name` });
+      }
+      if (widget.preview) {
+        references.push({ ...base, path: widget.preview, field: `widgets[${index}].preview` });
+      }
+      if (widget.audio && !isExternalUrl(widget.audio)) {
+        references.push({ ...base, path: widget.audio, field: `widgets[${index}].audio` });
+      }
+      addImages(base, widget.notes, `widgets[${index}].notes`);
+      addImages(base, widget.prose, `widgets[${index}].prose`);
+      if (widget.type === "markdown") addImages(base, widget.source, `widgets[${index}].source`);
+    });
+    node.children?.forEach(visit);
+  }
+
+  visit(root);
+  return references;
+}
+
+// Local references that are not part of the bundle; they may still exist
+// under /public, which only a failed load in the browser can tell.
+export function findUnbundledAssets(root: KnowledgeNode, resolver: AssetResolver): UnresolvedAsset[] {
+  return collectAssetReferences(root)
+    .map((reference) => ({ reference, resolved: resolver.resolve(reference.path) }))
+    .filter(({ resolved }) => resolved.source === "fallback")
+    .map(({ reference, resolved }) => ({
+      ...reference,
+      reason: `not found in the deck folder, trying ${resolved.url}`,
+    }));
+}
@@ -0,0 +1,221 @@
+// Code widgets: which language a snippet is in, which lines to highlight and
+// a small syntax highlighter (comments, strings, numbers and keywords; no
+// grammar). Pure so lint-deck can check highlight ranges too.
+import type { Widget } from "../types";
+
+export type CodeTokenKind = "plain" | "keyword" | "string" | "comment" | "number";
+
+export type CodeToken = { kind: CodeTokenKind; text: string };
+
+type LanguageSyntax = {
+  lineComments: string[];
+  blockComment?: [string, string];
+  strings: string[];                // quote characters; ` and """ may span lines
+  keywords: string[];
+  caseInsensitive?: boolean;
+};
+
+const C_FAMILY = "break case const continue default do else enum for goto if return sizeof static struct switch typedef union void volatile while".split(" ");
+
+const languages: Record<string, LanguageSyntax> = {
+  javascript: {
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    strings: ["`", '"', "'"],
+    keywords: "async await break case catch class const continue debugger default delete do else export extends false finally for from function if import in instanceof let new null of return static super switch this throw true try typeof undefined var void while with yield".split(" "),
+  },
+  typescript: {
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    strings: ["`", '"', "'"],
+    keywords: "abstract as async await boolean break case catch class const continue declare default delete do else enum export extends false finally for from function if implements import in instanceof interface keyof let namespace never new null number of private protected public readonly return static string super switch this throw true try type typeof undefined unknown var void while yield".split(" "),
+  },
+  python: {
+    lineComments: ["#"],
+    strings: ['"""', "'''", '"', "'"],
+    keywords: "and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield".split(" "),
+  },
+  java: {
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    strings: ['"', "'"],
+    keywords: "abstract boolean break byte case catch char class const continue default do double else enum extends false final finally float for if implements import instanceof int interface long new null package private protected public return short static super switch synchronized this throw throws true try var void while".split(" "),
+  },
+  c: {
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    strings: ['"', "'"],
+    keywords: [...C_FAMILY, "auto", "char", "double", "extern", "float", "int", "long", "register", "short", "signed", "unsigned", "NULL", "#include", "#define"],
+  },
+  cpp: {
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    strings: ['"', "'"],
+    keywords: [...C_FAMILY, "auto", "bool", "catch", "char", "class", "delete", "double", "false", "float", "int", "long", "namespace", "new", "nullptr", "private", "protected", "public", "template", "this", "throw", "true", "try", "typename", "using", "virtual"],
+  },
+  csharp: {
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    strings: ['"', "'"],
+    keywords: "abstract as async await bool break case catch class const continue default do double else enum false finally float for foreach if in int interface internal is namespace new null object override private protected public readonly return static string struct switch this throw true try using var virtual void while".split(" "),
+  },
+  go: {
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    strings: ["`", '"', "'"],
+    keywords: "break case chan const continue default defer else fallthrough false for func go goto if import interface map nil package range return select struct switch true type var".split(" "),
+  },
+  rust: {
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    strings: ['"'],
+    keywords: "as async await break const continue crate else enum false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while".split(" "),
+  },
+  ruby: {
+    lineComments: ["#"],
+    strings: ['"', "'"],
+    keywords: "begin break case class def do else elsif end ensure false for if in module next nil not or redo rescue retry return self super then true unless until when while yield".split(" "),
+  },
+  bash: {
+    lineComments: ["#"],
+    strings: ['"', "'"],
+    keywords: "case do done echo elif else esac exit export fi for function if in local return then until while".split(" "),
+  },
+  sql: {
+    lineComments: ["--"],
+    blockComment: ["/*", "*/"],
+    strings: ["'", '"'],
+    keywords: "and as asc by create delete desc distinct drop from group having in index inner insert into is join left limit not null on or order outer right select set table union update values where with".split(" "),
+    caseInsensitive: true,
+  },
+  json: {
+    lineComments: [],
+    strings: ['"'],
+    keywords: ["true", "false", "null"],
+  },
+};
+
+const aliases: Record<string, string> = {
+  js: "javascript", jsx: "javascript", mjs: "javascript",
+  ts: "typescript", tsx: "typescript",
+  py: "python",
+  h: "c",
+  "c++": "cpp", hpp: "cpp", cc: "cpp",
+  cs: "csharp", "c#": "csharp",
+  rs: "rust",
+  rb: "ruby",
+  sh: "bash", shell: "bash", zsh: "bash",
+};
+
+// File extensions code widgets can load from the deck folder
+export const CODE_EXTENSIONS = ["js", "jsx", "ts", "tsx", "py", "java", "c", "h", "cpp", "hpp", "cs", "go", "rs", "rb", "sh", "sql"];
+
+// The widget's "language", else the one its file extension implies; null when unknown
+export function codeLanguageOf(widget: Widget): string | null {
+  const extension = /\.([a-z0-9+#]+)$/i.exec(widget.name)?.[1];
+  const requested = (widget.language ?? extension ?? "").toLowerCase();
+  const language = aliases[requested] ?? requested;
+  return language in languages ? language : null;
+}
+
+// "3" or "1-4, 7" to the line numbers it names (1-based); null if malformed
+export function parseLineRanges(spec: string): number[] | null {
+  const lines = new Set<number>();
+  for (const part of spec.split(",")) {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+))?\s*$/.exec(part);
+    if (!match) return null;
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : from;
+    if (from < 1 || to < from) return null;
+    for (let line = from; line <= to; line++) lines.add(line);
+  }
+  return [...lines].sort((a, b) => a - b);
+}
+
+// A single range is highlighted throughout; a list is stepped through with Next
+export function highlightSteps(widget: Widget): string[] {
+  if (!widget.highlight) return [];
+  return Array.isArray(widget.highlight) ? widget.highlight : [widget.highlight];
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const tokenPatterns = new Map<string, RegExp>();
+
+function tokenPattern(language: string) {
+  const cached = tokenPatterns.get(language);
+  if (cached) return cached;
+
+  const syntax = languages[language];
+  const comments = syntax.lineComments.map((start) => `${escapeRegExp(start)}.*`);
+  if (syntax.blockComment) {
+    const [open, close] = syntax.blockComment.map(escapeRegExp);
+    comments.unshift(`${open}[\\s\\S]*?(?:${close}|$)`);
+  }
+  const strings = syntax.strings.map((quote) => {
+    const q = escapeRegExp(quote);
+    // Template literals and triple quotes may run over several lines
+    return quote === "`" || quote.length === 3
+      ? `${q}[\\s\\S]*?(?:${q}|$)`
+      : `${q}(?:\\\\.|(?!${q})[^\\\\\\n])*(?:${q})?`;
+  });
+
+  const pattern = new RegExp([
+    comments.length ? `(${comments.join("|")})` : "(?!)",
+    `(${strings.join("|")})`,
+    /(\b(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)\b)/.source,
+    /(#?[A-Za-z_$][\w$]*)/.source,
+  ].join("|"), "gi");
+  tokenPatterns.set(language, pattern);
+  return pattern;
+}
+
+function tokenize(source: string, language: string | null): CodeToken[] {
+  if (!language) return [{ kind: "plain", text: source }];
+
+  const syntax = languages[language];
+  const keywords = new Set(syntax.caseInsensitive ? syntax.keywords.map((k) => k.toLowerCase()) : syntax.keywords);
+  const pattern = tokenPattern(language);
+  const tokens: CodeToken[] = [];
+  const push = (kind: CodeTokenKind, text: string) => {
+    if (!text) return;
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === kind && kind === "plain") last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  pattern.lastIndex = 0;
+  let cursor = 0;
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    if (match[0] === "") {
+      pattern.lastIndex++;
+      continue;
+    }
+    push("plain", source.slice(cursor, match.index));
+    cursor = match.index + match[0].length;
+
+    if (match[1] !== undefined) push("comment", match[0]);
+    else if (match[2] !== undefined) push("string", match[0]);
+    else if (match[3] !== undefined) push("number", match[0]);
+    else {
+      const word = syntax.caseInsensitive ? match[0].toLowerCase() : match[0];
+      push(keywords.has(word) ? "keyword" : "plain", match[0]);
+    }
+  }
+  push("plain", source.slice(cursor));
+  return tokens;
+}
+
+// The source split into lines of tokens, for rendering with line numbers
+export function highlightCode(source: string, language: string | null): CodeToken[][] {
+  const lines: CodeToken[][] = [[]];
+  for (const token of tokenize(source.replace(/\r\n?/g, "\n"), language)) {
+    token.text.split("\n").forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ kind: token.kind, text: part });
+    });
+  }
+  return lines;
+}
@@ -0,0 +1,57 @@
+import type { KnowledgeNode } from "../types";
+import { childrenOf, walkTree } from "./layouts/tree";
+
+// Collapsing a node hides everything below it in both views. The views work
+// on a pruned copy of the tree, so layouts re-flow around what is visible.
+
+// Copy of the tree without the children of collapsed nodes
+export function pruneCollapsed(root: KnowledgeNode, collapsed: Set<string>): KnowledgeNode {
+  if (collapsed.size === 0) return root;
+
+  function prune(node: KnowledgeNode): KnowledgeNode {
+    if (collapsed.has(node.id)) return { ...node, children: [] };
+    if (!node.children) return node;
+    return { ...node, children: node.children.map(prune) };
+  }
+
+  return prune(root);
+}
+
+// Number of nodes below each node in the full tree
+export function countDescendants(root: KnowledgeNode): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  function count(node: KnowledgeNode): number {
+    const total = childrenOf(node).reduce((sum, child) => sum + 1 + count(child), 0);
+    counts.set(node.id, total);
+    return total;
+  }
+
+  count(root);
+  return counts;
+}
+
+// Collapsed set that shows only the top `levels` levels (1 = just the root).
+// Deeper branch nodes are collapsed too, so expanding a node reveals one
+// level at a time.
+export function collapseBelowDepth(root: KnowledgeNode, levels: number): Set<string> {
+  const collapsed = new Set<string>();
+  walkTree(root, (node, depth) => {
+    if (depth >= levels - 1 && childrenOf(node).length > 0) collapsed.add(node.id);
+  });
+  return collapsed;
+}
+
+// Ids from the root down to (not including) the node, or [] if it is not in the tree
+export function ancestorIds(root: KnowledgeNode, id: string): string[] {
+  function find(node: KnowledgeNode, trail: string[]): string[] | null {
+    if (node.id === id) return trail;
+    for (const child of childrenOf(node)) {
+      const found = find(child, [...trail, node.id]);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  return find(root, []) ?? [];
+}
@@ -0,0 +1,266 @@
+import type { KnowledgeNode, Widget } from "../types";
+import { formatJsonPath, knownDeckKeys, validateDeck } from "./deckSchema";
+import { isExternalUrl, linkInName, type AssetResolver } from "./assets";
+import { getYouTubeVideoId, isYouTubeHost } from "./youtube";
+import { getWidgetTypeDefinition, MEDIA_WIDGET_FIELDS, widgetTypeOf } from "./widgetTypes";
+import { markdownImages, markdownMath } from "./markdown";
+import { mathError } from "./math";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintRule =
+  | "schema"
+  | "unknown-key"
+  | "missing-asset"
+  | "invalid-widget-name"
+  | "youtube-id"
+  | "widget-type"
+  | "code-highlight"
+  | "media-trim"
+  | "math-syntax"
+  | "duplicate-label"
+  | "empty-notes"
+  | "weight-range";
+
+export type LintIssue = {
+  severity: LintSeverity;
+  rule: LintRule;
+  path: string;
+  message: string;
+  nodeLabel?: string;
+};
+
+export type DeckLintOptions = {
+  resolver: AssetResolver;
+  // Whether a resolved asset URL points at something that exists; lint-deck
+  // resolves to file system paths and checks them on disk.
+  assetExists: (url: string) => boolean;
+};
+
+// Same range normalizeWeight clamps to in the 3D view
+export const MIN_WEIGHT = 1;
+export const MAX_WEIGHT = 100;
+
+type JsonPath = (string | number)[];
+
+function hasExtension(path: string) {
+  return /\.[a-z0-9]+$/i.test(path.split(/[?#]/)[0]);
+}
+
+// Small edit distance, only used to suggest the intended key for a typo
+function editDistance(a: string, b: string) {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function checkKeys(value: unknown, known: string[], path: JsonPath, issues: LintIssue[], nodeLabel?: string) {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return;
+
+  for (const key of Object.keys(value)) {
+    if (known.includes(key)) continue;
+    const suggestion = known
+      .map((candidate) => ({ candidate, distance: editDistance(key, candidate) }))
+      .filter(({ distance }) => distance <= 2)
+      .sort((a, b) => a.distance - b.distance)[0]?.candidate;
+    issues.push({
+      severity: "error",
+      rule: "unknown-key",
+      path: formatJsonPath([...path, key]),
+      message: `Unknown key "${key}"${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`,
+      nodeLabel,
+    });
+  }
+}
+
+function checkUnknownKeys(raw: unknown, issues: LintIssue[]) {
+  checkKeys(raw, knownDeckKeys.deck, [], issues);
+  if (!raw || typeof raw !== "object") return;
+
+  const deck = raw as Record<string, unknown>;
+  checkKeys(deck.seo, knownDeckKeys.seo, ["seo"], issues);
+  checkKeys(deck.keymap, knownDeckKeys.keymap, ["keymap"], issues);
+  checkKeys(deck.speech, knownDeckKeys.speech, ["speech"], issues);
+  if (Array.isArray(deck.paths)) {
+    deck.paths.forEach((path, i) => checkKeys(path, knownDeckKeys.path, ["paths", i], issues));
+  }
+
+  function visit(node: unknown, path: JsonPath) {
+    if (!node || typeof node !== "object") return;
+    const { node: label, widgets, children } = node as Record<string, unknown>;
+    const nodeLabel = typeof label === "string" ? label : undefined;
+
+    checkKeys(node, knownDeckKeys.node, path, issues, nodeLabel);
+    if (Array.isArray(widgets)) {
+      widgets.forEach((widget, i) => checkKeys(widget, knownDeckKeys.widget, [...path, "widgets", i], issues, nodeLabel));
+    }
+    if (Array.isArray(children)) {
+      children.forEach((child, i) => visit(child, [...path, "children", i]));
+    }
+  }
+
+  visit(deck.knowledgeTree, ["knowledgeTree"]);
+}
+
+// Images embedded in Markdown prose or notes
+function missingImages(text: string | undefined, assetExists: (path: string) => boolean) {
+  return markdownImages(text ?? "").filter((path) => !isExternalUrl(path) && !assetExists(path));
+}
+
+// $...$ formulas in prose or notes that KaTeX cannot typeset, with the reason
+function badFormulas(text: string | undefined) {
+  return markdownMath(text ?? "").flatMap((latex) => {
+    const error = mathError(latex);
+    return error ? [{ latex, error }] : [];
+  });
+}
+
+function checkWidget(widget: Widget, path: JsonPath, nodeLabel: string, options: DeckLintOptions, issues: LintIssue[]) {
+  const add = (severity: LintSeverity, rule: LintRule, field: string, message: string) =>
+    issues.push({ severity, rule, path: formatJsonPath([...path, field]), message, nodeLabel });
+
+  const assetExists = (assetPath: string) => options.assetExists(options.resolver.resolve(assetPath).url);
+
+  const type = widgetTypeOf(widget);
+
+  // Still shown, since the link is found behind the folder, but worth cleaning up
+  const link = linkInName(widget.name);
+  if (link !== widget.name) {
+    add("warning", "invalid-widget-name", "name", `"${widget.name}" has "${widget.name.slice(0, -link.length)}" in front of its link; use "${link}"`);
+  }
+
+  // With inline source or a formula the name is only a label
+  if (widget.source === undefined && widget.latex === undefined && !isExternalUrl(link) && !assetExists(widget.name)) {
+    if (hasExtension(widget.name)) {
+      add("error", "missing-asset", "name", `File "${widget.name}" does not exist`);
+    } else {
+      add("error", "invalid-widget-name", "name", `"${widget.name}" is neither a file nor a URL`);
+    }
+  }
+
+  if (widget.preview && !isExternalUrl(widget.preview) && !assetExists(widget.preview)) {
+    add("error", "missing-asset", "preview", `Preview image "${widget.preview}" does not exist`);
+  }
+
+  if (widget.audio && !isExternalUrl(widget.audio) && !assetExists(widget.audio)) {
+    add("error", "missing-asset", "audio", `Audio file "${widget.audio}" does not exist`);
+  }
+
+  // YouTube widgets check their own link below
+  if (type !== "youtube" && widget.url && isYouTubeHost(widget.url) && !getYouTubeVideoId(widget.url)) {
+    add("error", "youtube-id", "url", `Cannot find a YouTube video id in "${widget.url}"`);
+  }
+
+  getWidgetTypeDefinition(type).validate?.(widget, { assetExists, report: add });
+
+  if (type !== "video" && type !== "audio") {
+    MEDIA_WIDGET_FIELDS.filter((field) => widget[field] !== undefined).forEach((field) => {
+      add("warning", "widget-type", field, `"${field}" only applies to video and audio widgets`);
+    });
+  }
+
+  // The text of a Markdown widget is checked like its notes
+  const markdownFields = type === "markdown" ? (["notes", "prose", "source"] as const) : (["notes", "prose"] as const);
+  markdownFields.forEach((field) => {
+    missingImages(widget[field], assetExists).forEach((path) => {
+      add("error", "missing-asset", field, `Image "${path}" does not exist`);
+    });
+    badFormulas(widget[field]).forEach(({ latex, error }) => {
+      add("error", "math-syntax", field, `Cannot typeset $${latex}$: ${error}`);
+    });
+  });
+
+  if (!widget.notes || !widget.notes.trim()) {
+    add("warning", "empty-notes", "notes", "Widget has no notes");
+  }
+}
+
+// Everything lint-deck reports for one deck file. Schema problems stop the
+// deeper checks, since they assume a well-formed tree.
+export function lintDeck(raw: unknown, options: DeckLintOptions): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const validation = validateDeck(raw);
+
+  if (validation.success === false) {
+    validation.issues.forEach((issue) => issues.push({ severity: "error", rule: "schema", ...issue }));
+  }
+
+  checkUnknownKeys(raw, issues);
+
+  if (validation.success === false) return issues;
+
+  const firstPathByLabel = new Map<string, string>();
+  const assetExists = (assetPath: string) => options.assetExists(options.resolver.resolve(assetPath).url);
+
+  function visit(node: KnowledgeNode, path: JsonPath) {
+    const formatted = formatJsonPath(path);
+
+    const firstPath = firstPathByLabel.get(node.node);
+    if (firstPath !== undefined) {
+      issues.push({
+        severity: "warning",
+        rule: "duplicate-label",
+        path: formatJsonPath([...path, "node"]),
+        message: `Label "${node.node}" is also used at ${firstPath}`,
+        nodeLabel: node.node,
+      });
+    } else {
+      firstPathByLabel.set(node.node, formatted);
+    }
+
+    if (node.weight !== undefined && (node.weight < MIN_WEIGHT || node.weight > MAX_WEIGHT)) {
+      issues.push({
+        severity: "error",
+        rule: "weight-range",
+        path: formatJsonPath([...path, "weight"]),
+        message: `Weight ${node.weight} is outside ${MIN_WEIGHT}-${MAX_WEIGHT}`,
+        nodeLabel: node.node,
+      });
+    }
+
+    if (node.audio && !isExternalUrl(node.audio) && !assetExists(node.audio)) {
+      issues.push({
+        severity: "error",
+        rule: "missing-asset",
+        path: formatJsonPath([...path, "audio"]),
+        message: `Audio file "${node.audio}" does not exist`,
+        nodeLabel: node.node,
+      });
+    }
+
+    missingImages(node.prose, assetExists).forEach((assetPath) => {
+      issues.push({
+        severity: "error",
+        rule: "missing-asset",
+        path: formatJsonPath([...path, "prose"]),
+        message: `Image "${assetPath}" does not exist`,
+        nodeLabel: node.node,
+      });
+    });
+
+    badFormulas(node.prose).forEach(({ latex, error }) => {
+      issues.push({
+        severity: "error",
+        rule: "math-syntax",
+        path: formatJsonPath([...path, "prose"]),
+        message: `Cannot typeset $${latex}$: ${error}`,
+        nodeLabel: node.node,
+      });
+    });
+
+    node.widgets?.forEach((widget, i) => checkWidget(widget, [...path, "widgets", i], node.node, options, issues));
+    node.children?.forEach((child, i) => visit(child, [...path, "children", i]));
+  }
+
+  visit(validation.deck.knowledgeTree, ["knowledgeTree"]);
+
+  return issues;
+}
@@ -0,0 +1,210 @@
+import { z } from "zod";
+import type { Deck, KnowledgeNode } from "../types";
+import { resolveNodeId } from "./nodeIds";
+import { layoutEngineIds } from "./layouts";
+import { BUILT_IN_PATH_IDS } from "./paths";
+import { keyActions } from "./keymap";
+import { revealModes } from "./reveal";
+import { widgetTypeIds } from "./widgetTypes";
+
+// Unknown keys are tolerated at load time so older decks keep rendering;
+// only the fields the app actually reads are type-checked here.
+const audioCaptionsSchema = z.array(
+  z.object({ start: z.number().min(0), text: z.string().min(1) }).passthrough()
+);
+
+export const widgetSchema = z
+  .object({
+    name: z.string().min(1, "Widget name must not be empty"),
+    type: z.enum(widgetTypeIds).optional(),
+    title: z.string().optional(),
+    subtitle: z.string().optional(),
+    notes: z.string(),
+    url: z.string().optional(),
+    preview: z.string().optional(),
+    image_only: z.boolean().optional(),
+    prose: z.string().optional(),
+    audio: z.string().min(1).optional(),
+    audioCaptions: audioCaptionsSchema.optional(),
+    source: z.string().optional(),
+    language: z.string().optional(),
+    highlight: z.union([z.string(), z.array(z.string())]).optional(),
+    latex: z.string().optional(),
+    start: z.number().min(0).optional(),
+    end: z.number().min(0).optional(),
+    autoplay: z.boolean().optional(),
+  })
+  .passthrough();
+
+const knowledgeNodeObjectSchema = z
+  .object({
+    node: z.string().min(1, "Node label must not be empty"),
+    id: z.string().min(1, "Node id must not be empty").optional(),
+    weight: z.number().optional(),
+    prose: z.string().optional(),
+    audio: z.string().min(1).optional(),
+    audioCaptions: audioCaptionsSchema.optional(),
+    children: z.array(z.lazy(() => knowledgeNodeSchema)).optional(),
+    widgets: z.array(widgetSchema).optional(),
+  })
+  .passthrough();
+
+// The recursive schema needs an explicit type; zod cannot infer it through z.lazy.
+export const knowledgeNodeSchema = knowledgeNodeObjectSchema as z.ZodType<KnowledgeNode, z.ZodTypeDef, unknown>;
+
+export const deckSeoSchema = z
+  .object({
+    title: z.string(),
+    description: z.string(),
+    prose: z.string().optional(),
+  })
+  .passthrough();
+
+const deckPathSchema = z
+  .object({
+    name: z.string().min(1, "Path name must not be empty"),
+    description: z.string().optional(),
+    nodes: z.array(z.string().min(1)).min(1, "A path needs at least one node id"),
+  })
+  .passthrough();
+
+const deckKeymapSchema = z
+  .object(Object.fromEntries(keyActions.map((action) => [action, z.array(z.string().min(1)).optional()])))
+  .passthrough();
+
+const deckSpeechSchema = z
+  .object({
+    voice: z.string().min(1).optional(),
+    lang: z.string().min(1).optional(),
+    rate: z.number().min(0.5).max(2).optional(),
+    pitch: z.number().min(0).max(2).optional(),
+    volume: z.number().min(0).max(1).optional(),
+  })
+  .passthrough();
+
+const deckObjectSchema = z
+  .object({
+    seo: deckSeoSchema,
+    pageTitle: z.string().optional(),
+    pageDescription: z.string().optional(),
+    layout: z.enum(layoutEngineIds).optional(),
+    paths: z.array(deckPathSchema).optional(),
+    expandDepth: z.number().int().min(1).optional(),
+    reveal: z.enum(revealModes).optional(),
+    keymap: deckKeymapSchema.optional(),
+    speech: deckSpeechSchema.optional(),
+    knowledgeTree: knowledgeNodeSchema,
+  })
+  .passthrough();
+
+// Keys each part of a deck may use; anything else is tolerated at load time
+// but flagged by lint-deck, since it is usually a typo ("pose" for "prose").
+export const knownDeckKeys = {
+  deck: Object.keys(deckObjectSchema.shape),
+  seo: Object.keys(deckSeoSchema.shape),
+  node: Object.keys(knowledgeNodeObjectSchema.shape),
+  widget: Object.keys(widgetSchema.shape),
+  path: Object.keys(deckPathSchema.shape),
+  keymap: Object.keys(deckKeymapSchema.shape),
+  speech: Object.keys(deckSpeechSchema.shape),
+};
+
+export const deckSchema = deckObjectSchema
+  .superRefine((deck, ctx) => {
+    // Focus and navigation are keyed by node id, so two nodes resolving to the
+    // same id (explicit or generated) would be indistinguishable.
+    const firstPathById = new Map<string, string>();
+
+    function visit(node: KnowledgeNode, parentId: string | undefined, index: number, path: (string | number)[]) {
+      const id = resolveNodeId(node, parentId, index);
+      const firstPath = firstPathById.get(id);
+      if (firstPath !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [...path, "id"],
+          message: `Duplicate node id "${id}" (already used by ${firstPath})`,
+        });
+      } else {
+        firstPathById.set(id, formatJsonPath(path));
+      }
+      node.children?.forEach((child, i) => visit(child, id, i, [...path, "children", i]));
+    }
+
+    visit(deck.knowledgeTree, undefined, 0, ["knowledgeTree"]);
+
+    // Paths refer to nodes by id and are picked by name
+    const pathNames = new Set<string>(BUILT_IN_PATH_IDS);
+    deck.paths?.forEach((path, pathIndex) => {
+      if (pathNames.has(path.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["paths", pathIndex, "name"],
+          message: BUILT_IN_PATH_IDS.includes(path.name)
+            ? `Path name "${path.name}" is reserved for the built-in ordering`
+            : `Duplicate path name "${path.name}"`,
+        });
+      }
+      pathNames.add(path.name);
+
+      path.nodes.forEach((id, i) => {
+        if (!firstPathById.has(id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["paths", pathIndex, "nodes", i],
+            message: `Path "${path.name}" refers to unknown node id "${id}"`,
+          });
+        }
+      });
+    });
+  });
+
+export type DeckIssue = {
+  path: string;          // JSON path, e.g. knowledgeTree.children[2].widgets[0].name
+  message: string;
+  nodeLabel?: string;    // label of the closest enclosing node, when it has one
+};
+
+export type DeckValidationResult =
+  | { success: true; deck: Deck }
+  | { success: false; issues: DeckIssue[] };
+
+export function formatJsonPath(path: (string | number)[]): string {
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === "number") return `${acc}[${segment}]`;
+    return acc ? `${acc}.${segment}` : segment;
+  }, "");
+}
+
+// Walk the raw JSON along an issue path and remember the last node label seen,
+// so authors can find the offending node without counting array indices.
+function findNodeLabel(raw: unknown, path: (string | number)[]): string | undefined {
+  let current: unknown = raw;
+  let label: string | undefined;
+
+  for (const segment of path) {
+    if (current && typeof current === "object") {
+      const nodeLabel = (current as Record<string, unknown>).node;
+      if (typeof nodeLabel === "string" && nodeLabel) label = nodeLabel;
+      current = (current as Record<string | number, unknown>)[segment];
+    } else {
+      break;
+    }
+  }
+
+  return label;
+}
+
+export function validateDeck(raw: unknown): DeckValidationResult {
+  const result = deckSchema.safeParse(raw);
+  if (result.success) {
+    return { success: true, deck: result.data as Deck };
+  }
+
+  const issues = result.error.issues.map((issue) => ({
+    path: formatJsonPath(issue.path) || "(root)",
+    message: issue.message,
+    nodeLabel: findNodeLabel(raw, issue.path),
+  }));
+
+  return { success: false, issues };
+}
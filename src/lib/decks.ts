@@ -0,0 +1,93 @@
+import type { Deck } from "../types";
+import { validateDeck, type DeckValidationResult } from "./deckSchema";
+import { createAssetResolver, type AssetResolver } from "./assets";
+import defaultDeckData from "../../data/knowledge.json";
+
+// Every deck lives in its own folder under data/examples together with its
+// media, e.g. data/examples/physics/knowledge-physics.json + proton.png.
+const deckModules = import.meta.glob("../../data/examples/*/*.json", {
+  eager: true,
+  import: "default",
+});
+
+// Bundled URLs for every media file next to a deck, keyed by the path
+// relative to data/ (e.g. "examples/physics/proton.png").
+const assetModules = import.meta.glob(
+  "../../data/examples/*/*.{png,jpg,jpeg,gif,bmp,webp,svg,mp3,ogg,wav,m4a,mp4,webm,mov,m4v,pdf,md,markdown,js,jsx,ts,tsx,py,java,c,h,cpp,hpp,cs,go,rs,rb,sh,sql}",
+  { eager: true, query: "?url", import: "default" }
+) as Record<string, string>;
+
+const DATA_PREFIX = "../../data/";
+
+const bundledUrls = new Map(
+  Object.entries(assetModules).map(([path, url]) => [path.slice(DATA_PREFIX.length), url])
+);
+
+export type DeckEntry = {
+  slug: string;
+  source: string;          // path of the JSON file relative to the repo root
+  folder: string | null;   // deck folder relative to data/, null for data/knowledge.json
+  title: string;
+  description: string;
+  validation: DeckValidationResult;
+  assets: AssetResolver;
+};
+
+// The single deck the README tells authors to edit; kept for backwards compatibility
+export const DEFAULT_DECK_SLUG = "knowledge";
+
+function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function createDeckEntry(slug: string, source: string, folder: string | null, raw: unknown): DeckEntry {
+  const validation = validateDeck(raw);
+  const seo = (raw as Partial<Deck> | null)?.seo;
+
+  return {
+    slug,
+    source,
+    folder,
+    title: typeof seo?.title === "string" ? seo.title : slug,
+    description: typeof seo?.description === "string" ? seo.description : "",
+    validation,
+    assets: createAssetResolver({ folder, bundledUrls, baseUrl: import.meta.env.BASE_URL }),
+  };
+}
+
+function discoverDecks(): DeckEntry[] {
+  const paths = Object.keys(deckModules).sort();
+  const folderCounts = new Map<string, number>();
+  paths.forEach((path) => {
+    const folder = path.split("/").slice(-2)[0];
+    folderCounts.set(folder, (folderCounts.get(folder) ?? 0) + 1);
+  });
+
+  const examples = paths.map((path) => {
+    const [folderName, fileName] = path.split("/").slice(-2);
+    const baseName = fileName.replace(/\.json$/, "");
+    // One deck per folder is the norm; only disambiguate when a folder holds several
+    const slug = folderCounts.get(folderName) === 1 ? slugify(folderName) : slugify(`${folderName}-${baseName}`);
+    const relative = path.slice(DATA_PREFIX.length);
+    return createDeckEntry(slug, `data/${relative}`, `examples/${folderName}`, deckModules[path]);
+  });
+
+  return [
+    createDeckEntry(DEFAULT_DECK_SLUG, "data/knowledge.json", null, defaultDeckData),
+    ...examples,
+  ];
+}
+
+const decks = discoverDecks();
+const decksBySlug = new Map(decks.map((entry) => [entry.slug, entry]));
+
+export function listDecks(): DeckEntry[] {
+  return decks;
+}
+
+export function getDeck(slug: string | undefined): DeckEntry | undefined {
+  return slug ? decksBySlug.get(slug) : undefined;
+}
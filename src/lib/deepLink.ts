@@ -0,0 +1,66 @@
+import type { Vec3 } from "./layouts";
+
+// Where the audience is in a talk, as carried in the query string of
+// /talk/:slug, e.g. ?node=root.1.2&widget=0&path=10-minute+version&camera=...
+// so a refresh or a shared link lands on the same node.
+
+export type CameraPose = {
+  position: Vec3;
+  target: Vec3;
+};
+
+export type TalkLocation = {
+  nodeId: string | null;
+  widgetIndex: number | null;      // widget open in the drawer
+  pathId: string | null;
+};
+
+const NODE_PARAM = "node";
+const WIDGET_PARAM = "widget";
+const PATH_PARAM = "path";
+const CAMERA_PARAM = "camera";
+
+export function readTalkLocation(params: URLSearchParams): TalkLocation {
+  const widget = params.get(WIDGET_PARAM);
+  const widgetIndex = widget !== null && /^\d+$/.test(widget) ? Number(widget) : null;
+  return {
+    nodeId: params.get(NODE_PARAM) || null,
+    widgetIndex,
+    pathId: params.get(PATH_PARAM) || null,
+  };
+}
+
+function setOrDelete(params: URLSearchParams, name: string, value: string | null) {
+  if (value === null) params.delete(name);
+  else params.set(name, value);
+}
+
+// Copy of params with the location written over it; other parameters stay
+export function writeTalkLocation(params: URLSearchParams, location: TalkLocation): URLSearchParams {
+  const next = new URLSearchParams(params);
+  setOrDelete(next, NODE_PARAM, location.nodeId);
+  setOrDelete(next, WIDGET_PARAM, location.widgetIndex === null ? null : String(location.widgetIndex));
+  setOrDelete(next, PATH_PARAM, location.pathId);
+  return next;
+}
+
+export function isSameTalkLocation(a: TalkLocation, b: TalkLocation) {
+  return a.nodeId === b.nodeId && a.widgetIndex === b.widgetIndex && a.pathId === b.pathId;
+}
+
+// Camera pose as six comma-separated numbers: position, then orbit target
+export function readCameraPose(params: URLSearchParams): CameraPose | null {
+  const numbers = params.get(CAMERA_PARAM)?.split(",").map(Number);
+  if (!numbers || numbers.length !== 6 || numbers.some(n => !Number.isFinite(n))) return null;
+  return {
+    position: [numbers[0], numbers[1], numbers[2]],
+    target: [numbers[3], numbers[4], numbers[5]],
+  };
+}
+
+export function writeCameraPose(params: URLSearchParams, pose: CameraPose | null): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const value = pose ? [...pose.position, ...pose.target].map(n => Number(n.toFixed(2))).join(",") : null;
+  setOrDelete(next, CAMERA_PARAM, value);
+  return next;
+}
@@ -0,0 +1,77 @@
+// Keyboard (and presentation clicker) bindings. Each action lists the
+// KeyboardEvent.key values that trigger it; a deck can replace the list for
+// any action with its own "keymap" entry, or switch an action off with [].
+
+export type KeyAction =
+  | "next"
+  | "previous"
+  | "first"
+  | "last"
+  | "openWidget"
+  | "closeWidget"
+  | "widgets"          // the Nth key in the list opens the Nth widget
+  | "playMedia"        // the video or audio in the drawer, else on the focused node
+  | "search"
+  | "help";
+
+export type Keymap = Record<KeyAction, string[]>;
+
+export const keyActions: KeyAction[] = ["next", "previous", "first", "last", "openWidget", "closeWidget", "widgets", "playMedia", "search", "help"];
+
+// Clickers send PageDown/PageUp or the arrow keys, depending on the model
+export const DEFAULT_KEYMAP: Keymap = {
+  next: ["ArrowRight", "ArrowDown", "PageDown"],
+  previous: ["ArrowLeft", "ArrowUp", "PageUp"],
+  first: ["Home"],
+  last: ["End"],
+  openWidget: ["Enter"],
+  closeWidget: ["Escape"],
+  widgets: ["1", "2", "3", "4", "5", "6", "7", "8", "9"],
+  playMedia: [" ", "k"],
+  search: ["/"],
+  help: ["?"],
+};
+
+export const keyActionLabels: Record<KeyAction, string> = {
+  next: "Next node",
+  previous: "Previous node",
+  first: "First node of the path",
+  last: "Last node of the path",
+  openWidget: "Open the first widget",
+  closeWidget: "Close the widget",
+  widgets: "Open widget 1, 2, 3…",
+  playMedia: "Play or pause the video or audio",
+  search: "Search the deck",
+  help: "Show this list",
+};
+
+export function resolveKeymap(overrides?: Partial<Keymap>): Keymap {
+  return { ...DEFAULT_KEYMAP, ...overrides };
+}
+
+export type KeyMatch = { action: KeyAction; index: number };
+
+// The action a key press triggers, with the key's position in the action's
+// list (used by "widgets")
+export function matchKey(keymap: Keymap, key: string): KeyMatch | null {
+  for (const action of keyActions) {
+    const index = keymap[action].indexOf(key);
+    if (index !== -1) return { action, index };
+  }
+  return null;
+}
+
+const KEY_NAMES: Record<string, string> = {
+  " ": "Space",
+  ArrowRight: "→",
+  ArrowLeft: "←",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Escape: "Esc",
+  PageDown: "Page Down",
+  PageUp: "Page Up",
+};
+
+export function formatKey(key: string) {
+  return KEY_NAMES[key] ?? key;
+}
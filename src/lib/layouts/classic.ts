@@ -0,0 +1,104 @@
+import type { KnowledgeNode } from "../../types";
+import { seededRandom } from "../random";
+import { normalizeWeight, type LayoutEngine, type Vec3 } from "./types";
+
+// The original arrangement: depth along Z, siblings on a circle around their
+// parent, with collisions nudged apart after the fact.
+function placeClassic(root: KnowledgeNode): Map<string, Vec3> {
+  const positions = new Map<string, Vec3>();
+  const placed: Vec3[] = [];
+
+  // Improved spacing parameters to prevent overlaps (halved for shorter links)
+  const layerDistance = 7.5; // Half the distance between depth levels
+  const minNodeDistance = 2; // Half the minimum distance between any two nodes
+  const baseRadius = 3; // Half the base radius for first level
+
+  function calculateOptimalRadius(nodeCount: number, minDistance: number, averageNodeSize = 1): number {
+    if (nodeCount <= 1) return 0;
+    // Calculate radius needed to fit nodeCount nodes with minDistance between them
+    // Scale by average node size - smaller nodes get shorter links
+    const sizeScale = 0.5 + (averageNodeSize * 0.8); // Range from 0.5x to 1.3x
+    const circumference = nodeCount * minDistance * 2 * sizeScale;
+    return Math.max(baseRadius * sizeScale, circumference / (2 * Math.PI));
+  }
+
+  function traverse(n: KnowledgeNode, depth: number, parentPos: Vec3 = [0, 0, 0], siblingIndex = 0, totalSiblings = 1) {
+    const z = depth * layerDistance;
+
+    let x = 0, y = 0;
+
+    if (depth === 0) {
+      // Root node at origin
+      x = 0;
+      y = 0;
+    } else {
+      // Calculate position based on sibling arrangement
+      if (totalSiblings === 1) {
+        // Single child, place directly below parent with slight offset to avoid exact overlap.
+        // The offset is seeded by the node id so it is the same on every load.
+        const random = seededRandom(n.id);
+        x = parentPos[0] + (random() - 0.5) * 0.5;
+        y = parentPos[1] + (random() - 0.5) * 0.5;
+      } else {
+        // Multiple siblings, arrange in circle around parent
+        // Calculate average node size for this group (including parent and siblings)
+        const parentWeight = normalizeWeight(n.weight);
+        const siblingWeights = (n.children || []).map(child => normalizeWeight(child.weight));
+        const averageSize = ([parentWeight, ...siblingWeights].reduce((sum, w) => sum + w, 0)) / (siblingWeights.length + 1);
+
+        const radius = calculateOptimalRadius(totalSiblings, minNodeDistance, 0.2 * averageSize * normalizeWeight(n.weight) * normalizeWeight(n.weight));
+        const angle = (siblingIndex / totalSiblings) * Math.PI * 15; // Wider spread
+        x = parentPos[0] + Math.cos(angle) * radius;
+        y = parentPos[1] + Math.sin(angle) * radius;
+      }
+    }
+
+    // Check for collisions with existing nodes and adjust if necessary
+    let finalPosition: Vec3 = [x, y, z];
+    let attempts = 0;
+    const maxAttempts = 20;
+
+    while (attempts < maxAttempts) {
+      let collision = false;
+      for (const existing of placed) {
+        const dx = finalPosition[0] - existing[0];
+        const dy = finalPosition[1] - existing[1];
+        const dz = finalPosition[2] - existing[2];
+        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+        if (distance < minNodeDistance) {
+          collision = true;
+          // Move away from collision
+          const moveDistance = minNodeDistance - distance + 1;
+          const moveAngle = Math.atan2(dy, dx);
+          finalPosition = [
+            finalPosition[0] + Math.cos(moveAngle) * moveDistance,
+            finalPosition[1] + Math.sin(moveAngle) * moveDistance,
+            finalPosition[2]
+          ];
+          break;
+        }
+      }
+
+      if (!collision) break;
+      attempts++;
+    }
+
+    placed.push(finalPosition);
+    positions.set(n.id, finalPosition);
+
+    const children = n.children ?? [];
+    children.forEach((child, i) => traverse(child, depth + 1, finalPosition, i, children.length));
+  }
+
+  traverse(root, 0);
+
+  return positions;
+}
+
+export const classicLayout: LayoutEngine = {
+  id: "classic",
+  name: "Classic",
+  description: "Depth along Z, siblings circling their parent",
+  place: placeClassic,
+};
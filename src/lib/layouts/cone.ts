@@ -0,0 +1,63 @@
+import type { KnowledgeNode } from "../../types";
+import { childrenOf } from "./tree";
+import type { LayoutEngine, Vec3 } from "./types";
+
+const LAYER_DISTANCE = 7.5;
+const LEAF_SPAN = 1.2;        // room a single node needs around itself
+const SIBLING_GAP = 0.6;
+
+// Classic cone tree: children sit on the rim of a cone below their parent and
+// the rim is sized from the children's own cones, so subtrees never overlap.
+function placeCone(root: KnowledgeNode): Map<string, Vec3> {
+  const positions = new Map<string, Vec3>();
+  const rimRadius = new Map<string, number>();
+  const span = new Map<string, number>();
+
+  function measure(node: KnowledgeNode): number {
+    const children = childrenOf(node);
+    if (children.length === 0) {
+      rimRadius.set(node.id, 0);
+      span.set(node.id, LEAF_SPAN);
+      return LEAF_SPAN;
+    }
+
+    const childSpans = children.map(measure);
+    const radius = children.length === 1
+      ? 0
+      : childSpans.reduce((sum, s) => sum + 2 * s + SIBLING_GAP, 0) / (2 * Math.PI);
+    const nodeSpan = Math.max(LEAF_SPAN, radius + Math.max(...childSpans));
+
+    rimRadius.set(node.id, radius);
+    span.set(node.id, nodeSpan);
+    return nodeSpan;
+  }
+
+  function place(node: KnowledgeNode, depth: number, x: number, y: number) {
+    positions.set(node.id, [x, y, depth * LAYER_DISTANCE]);
+
+    const children = childrenOf(node);
+    const radius = rimRadius.get(node.id);
+    const total = children.reduce((sum, child) => sum + 2 * span.get(child.id) + SIBLING_GAP, 0);
+
+    // Each child gets a slice of the rim proportional to its own cone
+    let angle = 0;
+    children.forEach((child) => {
+      const slice = ((2 * span.get(child.id) + SIBLING_GAP) / total) * Math.PI * 2;
+      const mid = angle + slice / 2;
+      place(child, depth + 1, x + Math.cos(mid) * radius, y + Math.sin(mid) * radius);
+      angle += slice;
+    });
+  }
+
+  measure(root);
+  place(root, 0, 0, 0);
+
+  return positions;
+}
+
+export const coneLayout: LayoutEngine = {
+  id: "cone",
+  name: "Cone tree",
+  description: "Children on the rim of a cone sized by their subtree",
+  place: placeCone,
+};
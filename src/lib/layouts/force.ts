@@ -0,0 +1,77 @@
+import type { KnowledgeNode } from "../../types";
+import { walkTree } from "./tree";
+import { coneLayout } from "./cone";
+import type { LayoutEngine, Vec3 } from "./types";
+
+const IDEAL_EDGE_LENGTH = 2.5;
+const ITERATIONS = 300;
+const START_TEMPERATURE = 3;
+
+// Fruchterman-Reingold in 3D. It starts from the cone tree rather than random
+// positions, so the result is the same on every load. The root stays pinned
+// at the origin.
+function placeForce(root: KnowledgeNode): Map<string, Vec3> {
+  const start = coneLayout.place(root);
+  const ids: string[] = [];
+  const edges: [number, number][] = [];
+  const indexById = new Map<string, number>();
+
+  walkTree(root, (node, _depth, parent) => {
+    indexById.set(node.id, ids.length);
+    ids.push(node.id);
+    if (parent) edges.push([indexById.get(parent.id), indexById.get(node.id)]);
+  });
+
+  const positions = ids.map((id) => [...start.get(id)] as Vec3);
+  const k = IDEAL_EDGE_LENGTH;
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const temperature = START_TEMPERATURE * (1 - iteration / ITERATIONS);
+    const displacement = positions.map(() => [0, 0, 0] as Vec3);
+
+    // Every pair repels
+    for (let i = 0; i < positions.length; i++) {
+      for (let j = i + 1; j < positions.length; j++) {
+        const delta = positions[i].map((v, axis) => v - positions[j][axis]) as Vec3;
+        const distance = Math.max(0.01, Math.hypot(...delta));
+        const force = (k * k) / distance;
+        for (let axis = 0; axis < 3; axis++) {
+          const push = (delta[axis] / distance) * force;
+          displacement[i][axis] += push;
+          displacement[j][axis] -= push;
+        }
+      }
+    }
+
+    // Parent and child attract
+    for (const [a, b] of edges) {
+      const delta = positions[a].map((v, axis) => v - positions[b][axis]) as Vec3;
+      const distance = Math.max(0.01, Math.hypot(...delta));
+      const force = (distance * distance) / k;
+      for (let axis = 0; axis < 3; axis++) {
+        const pull = (delta[axis] / distance) * force;
+        displacement[a][axis] -= pull;
+        displacement[b][axis] += pull;
+      }
+    }
+
+    // Move each node (except the root) at most `temperature` this round
+    for (let i = 1; i < positions.length; i++) {
+      const length = Math.hypot(...displacement[i]);
+      if (length < 1e-6) continue;
+      const limited = Math.min(length, temperature);
+      for (let axis = 0; axis < 3; axis++) {
+        positions[i][axis] += (displacement[i][axis] / length) * limited;
+      }
+    }
+  }
+
+  return new Map(ids.map((id, i) => [id, positions[i]]));
+}
+
+export const forceLayout: LayoutEngine = {
+  id: "force",
+  name: "Force-directed",
+  description: "Nodes settle where links pull and neighbours push",
+  place: placeForce,
+};
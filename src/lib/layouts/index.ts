@@ -0,0 +1,54 @@
+import type { KnowledgeNode } from "../../types";
+import { classicLayout } from "./classic";
+import { coneLayout } from "./cone";
+import { forceLayout } from "./force";
+import { orgChartLayout } from "./orgChart";
+import { radialLayout } from "./radial";
+import { spiralLayout } from "./spiral";
+import { walkTree } from "./tree";
+import type { Edge3D, Layout3D, LayoutEngine, LayoutEngineId, Node3D } from "./types";
+
+export type { Edge3D, Layout3D, LayoutEngine, LayoutEngineId, Node3D, Vec3 } from "./types";
+export { normalizeWeight } from "./types";
+
+// Order is the order they are offered in the control panel
+export const layoutEngines: LayoutEngine[] = [
+  classicLayout,
+  coneLayout,
+  radialLayout,
+  spiralLayout,
+  forceLayout,
+  orgChartLayout,
+];
+
+export const layoutEngineIds = layoutEngines.map((engine) => engine.id) as [LayoutEngineId, ...LayoutEngineId[]];
+
+export const DEFAULT_LAYOUT_ID: LayoutEngineId = "classic";
+
+export function getLayoutEngine(id: LayoutEngineId | undefined): LayoutEngine {
+  return layoutEngines.find((engine) => engine.id === id) ?? classicLayout;
+}
+
+// Runs an engine over the tree and turns its positions into what the scene draws
+export function buildLayout(root: KnowledgeNode, id: LayoutEngineId = DEFAULT_LAYOUT_ID): Layout3D {
+  const positions = getLayoutEngine(id).place(root);
+  const nodes: Node3D[] = [];
+  const edges: Edge3D[] = [];
+
+  walkTree(root, (node, depth, parent) => {
+    nodes.push({
+      id: node.id,
+      label: node.node,
+      weight: node.weight,
+      depth,
+      position: positions.get(node.id) ?? [0, 0, 0],
+      widgets: node.widgets,
+      prose: node.prose,
+      audio: node.audio,
+      audioCaptions: node.audioCaptions,
+    });
+    if (parent) edges.push({ source: parent.id, target: node.id });
+  });
+
+  return { nodes, edges };
+}
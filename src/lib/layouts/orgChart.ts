@@ -0,0 +1,37 @@
+import type { KnowledgeNode } from "../../types";
+import { childrenOf } from "./tree";
+import type { LayoutEngine, Vec3 } from "./types";
+
+const LEAF_GAP = 3;
+const LEVEL_GAP = 5;
+
+// Flat top-down chart in the z = 0 plane, the 3D twin of the 2D tree panel:
+// leaves evenly spaced, parents centred over their children.
+function placeOrgChart(root: KnowledgeNode): Map<string, Vec3> {
+  const xs = new Map<string, number>();
+  const depths = new Map<string, number>();
+  let leafIndex = 0;
+
+  function measure(node: KnowledgeNode, depth: number): number {
+    const children = childrenOf(node);
+    const x = children.length === 0
+      ? leafIndex++ * LEAF_GAP
+      : children.map((child) => measure(child, depth + 1)).reduce((a, b) => a + b, 0) / children.length;
+    xs.set(node.id, x);
+    depths.set(node.id, depth);
+    return x;
+  }
+
+  const rootX = measure(root, 0);
+
+  const positions = new Map<string, Vec3>();
+  xs.forEach((x, id) => positions.set(id, [x - rootX, -depths.get(id) * LEVEL_GAP, 0]));
+  return positions;
+}
+
+export const orgChartLayout: LayoutEngine = {
+  id: "org-chart",
+  name: "Org chart",
+  description: "Flat top-down chart on a single plane",
+  place: placeOrgChart,
+};
@@ -0,0 +1,52 @@
+import type { KnowledgeNode } from "../../types";
+import { childrenOf, leafCount } from "./tree";
+import type { LayoutEngine, Vec3 } from "./types";
+
+const SHELL_DISTANCE = 6;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Evenly spread direction number i of n on the unit sphere
+function fibonacciDirection(i: number, n: number): Vec3 {
+  const y = 1 - (2 * (i + 0.5)) / n;
+  const r = Math.sqrt(1 - y * y);
+  const theta = i * GOLDEN_ANGLE;
+  return [Math.cos(theta) * r, y, Math.sin(theta) * r];
+}
+
+// Root in the middle, each depth on its own sphere. Leaves are spread evenly
+// in talk order, so a branch occupies one patch of the sphere; inner nodes
+// point at the middle of their branch.
+function placeRadial(root: KnowledgeNode): Map<string, Vec3> {
+  const positions = new Map<string, Vec3>();
+  const totalLeaves = leafCount(root);
+  let leafIndex = 0;
+
+  function place(node: KnowledgeNode, depth: number): Vec3 {
+    const children = childrenOf(node);
+    let dir: Vec3;
+
+    if (children.length === 0) {
+      dir = fibonacciDirection(leafIndex++, totalLeaves);
+    } else {
+      const childDirs = children.map((child) => place(child, depth + 1));
+      const sum = childDirs.reduce<Vec3>((acc, d) => [acc[0] + d[0], acc[1] + d[1], acc[2] + d[2]], [0, 0, 0]);
+      const length = Math.hypot(...sum);
+      dir = length > 1e-6 ? [sum[0] / length, sum[1] / length, sum[2] / length] : childDirs[0];
+    }
+
+    const radius = depth * SHELL_DISTANCE;
+    positions.set(node.id, [dir[0] * radius, dir[1] * radius, dir[2] * radius]);
+    return dir;
+  }
+
+  place(root, 0);
+
+  return positions;
+}
+
+export const radialLayout: LayoutEngine = {
+  id: "radial",
+  name: "Radial sphere",
+  description: "Each level on a sphere around the root",
+  place: placeRadial,
+};
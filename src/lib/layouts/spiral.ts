@@ -0,0 +1,31 @@
+import type { KnowledgeNode } from "../../types";
+import { walkTree } from "./tree";
+import type { LayoutEngine, Vec3 } from "./types";
+
+const STEPS_PER_TURN = 12;
+const RISE_PER_STEP = 1.2;
+const INNER_RADIUS = 4;
+const RADIUS_PER_DEPTH = 2.5;
+
+// Nodes climb a helix in talk (DFS) order, one step per node, and sit further
+// out from the axis the deeper they are, so branches read as landings.
+function placeSpiral(root: KnowledgeNode): Map<string, Vec3> {
+  const positions = new Map<string, Vec3>();
+  let step = 0;
+
+  walkTree(root, (node, depth) => {
+    const angle = (step / STEPS_PER_TURN) * Math.PI * 2;
+    const radius = INNER_RADIUS + depth * RADIUS_PER_DEPTH;
+    positions.set(node.id, [Math.cos(angle) * radius, step * RISE_PER_STEP, Math.sin(angle) * radius]);
+    step++;
+  });
+
+  return positions;
+}
+
+export const spiralLayout: LayoutEngine = {
+  id: "spiral",
+  name: "Spiral staircase",
+  description: "Nodes climb a helix in presentation order",
+  place: placeSpiral,
+};
@@ -0,0 +1,31 @@
+import type { KnowledgeNode } from "../../types";
+
+// Small tree helpers shared by the layout engines
+
+export function childrenOf(node: KnowledgeNode): KnowledgeNode[] {
+  return node.children ?? [];
+}
+
+export function leafCount(node: KnowledgeNode): number {
+  const children = childrenOf(node);
+  if (children.length === 0) return 1;
+  return children.reduce((sum, child) => sum + leafCount(child), 0);
+}
+
+export function treeDepth(node: KnowledgeNode): number {
+  const children = childrenOf(node);
+  if (children.length === 0) return 1;
+  return 1 + Math.max(...children.map(treeDepth));
+}
+
+// Pre-order (DFS) walk with depth and parent, the order the talk is given in
+export function walkTree(
+  root: KnowledgeNode,
+  visit: (node: KnowledgeNode, depth: number, parent: KnowledgeNode | undefined, index: number) => void
+) {
+  function step(node: KnowledgeNode, depth: number, parent: KnowledgeNode | undefined, index: number) {
+    visit(node, depth, parent, index);
+    childrenOf(node).forEach((child, i) => step(child, depth + 1, node, i));
+  }
+  step(root, 0, undefined, 0);
+}
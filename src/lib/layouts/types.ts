@@ -0,0 +1,36 @@
+import type { AudioCaption, KnowledgeNode, Widget } from "../../types";
+
+export type Vec3 = [number, number, number];
+
+export type Node3D = {
+  id: string;
+  label: string;
+  weight?: number;
+  depth: number;
+  position: Vec3;
+  widgets?: Widget[];
+  prose?: string;
+  audio?: string;
+  audioCaptions?: AudioCaption[];
+};
+
+export type Edge3D = { source: string; target: string };
+
+export type Layout3D = { nodes: Node3D[]; edges: Edge3D[] };
+
+export type LayoutEngineId = "classic" | "cone" | "radial" | "spiral" | "force" | "org-chart";
+
+// A layout engine only decides where nodes go; turning positions into the
+// nodes and edges the scene renders is shared (see buildLayout).
+export type LayoutEngine = {
+  id: LayoutEngineId;
+  name: string;
+  description: string;
+  place: (root: KnowledgeNode) => Map<string, Vec3>;
+};
+
+export function normalizeWeight(w?: number) {
+  if (w === undefined || Number.isNaN(w)) return 0.5;
+  const clamped = Math.max(1, Math.min(100, w));
+  return (clamped - 1) / 99; // 0..1
+}
@@ -0,0 +1,248 @@
+// The Markdown subset allowed in node prose and widget notes: paragraphs,
+// headings, bullet and numbered lists, block quotes, fenced code, **bold**,
+// *italic*, `code`, [links](...), ![images](...), bare URLs and LaTeX math as
+// $inline$ or $$display$$. Single line breaks are kept, since decks were
+// written for plain pre-wrapped text, and the "⦿" and "•" that older decks use
+// as fake bullets start list items.
+//
+// There is no raw HTML: the tree below is rendered as React elements (see
+// components/Markdown), links only keep http(s), mailto and relative targets,
+// and math is typeset by KaTeX (lib/math), so deck text cannot inject markup
+// or script.
+//
+// A "$" only opens math when it is followed by a non-space and closed by a "$"
+// that follows a non-space and is not followed by a digit, so prices such as
+// "$5 to $10" stay text.
+import { mathToWords } from "./math";
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "emphasis"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[]; bare?: boolean }
+  | { type: "image"; src: string; alt: string }
+  | { type: "math"; latex: string; display: boolean }
+  | { type: "break" };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "blockquote"; children: MarkdownBlock[] }
+  | { type: "code"; language: string | null; text: string };
+
+const FENCE = /^\s*```\s*([\w+-]*)\s*$/;
+const HEADING = /^\s*(#{1,6})\s+(.*?)\s*#*\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const BULLET = /^\s*(?:[-*+•⦿])\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+const INLINE = new RegExp([
+  /`([^`\n]+)`/.source,                                         // 1 code
+  /!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/.source,           // 2, 3 image
+  /\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/.source,            // 4, 5 link
+  /\*\*(?=\S)([\s\S]+?)\*\*/.source,                           // 6 strong
+  /(?<!\w)__(?=\S)([\s\S]+?)__(?!\w)/.source,                   // 7 strong
+  /\*(?=[^\s*])([^*\n]+?)\*/.source,                            // 8 emphasis
+  /(?<!\w)_(?=[^\s_])([^_\n]+?)_(?!\w)/.source,                 // 9 emphasis
+  /(https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]])/.source,             // 10 bare URL
+  /\\([\\`*_[\]()#+\-.!>$])/.source,                            // 11 escaped character
+  /\$\$([^$]+?)\$\$/.source,                                    // 12 display math
+  /(?<![\w$])\$(?=[^\s$])([^$\n]*?[^\s$\\])\$(?![\d$])/.source, // 13 inline math
+  /(\n)/.source,                                                // 14 line break
+].join("|"), "g");
+
+// Link targets that cannot run script: web and mail links and paths in the deck
+export function isSafeHref(href: string) {
+  return /^(https?:|mailto:)/i.test(href) || !/^[a-z][a-z0-9+.-]*:/i.test(href.trim());
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+  const result: MarkdownInline[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = result[result.length - 1];
+    if (last?.type === "text") last.text += value;
+    else result.push({ type: "text", text: value });
+  };
+
+  INLINE.lastIndex = 0;
+  let cursor = 0;
+  for (let match = INLINE.exec(text); match; match = INLINE.exec(text)) {
+    pushText(text.slice(cursor, match.index));
+    cursor = match.index + match[0].length;
+    // The regex is shared with the recursive calls below
+    const resume = INLINE.lastIndex;
+
+    if (match[1] !== undefined) result.push({ type: "code", text: match[1] });
+    else if (match[3] !== undefined) result.push({ type: "image", src: match[3], alt: match[2] });
+    else if (match[5] !== undefined) {
+      const children = parseInline(match[4]);
+      if (isSafeHref(match[5])) result.push({ type: "link", href: match[5], children });
+      else children.forEach((child) => (child.type === "text" ? pushText(child.text) : result.push(child)));
+    }
+    else if (match[6] !== undefined || match[7] !== undefined) result.push({ type: "strong", children: parseInline(match[6] ?? match[7]) });
+    else if (match[8] !== undefined || match[9] !== undefined) result.push({ type: "emphasis", children: parseInline(match[8] ?? match[9]) });
+    else if (match[10] !== undefined) result.push({ type: "link", href: match[10], children: [{ type: "text", text: match[10] }], bare: true });
+    else if (match[11] !== undefined) pushText(match[11]);
+    else if (match[12] !== undefined) result.push({ type: "math", latex: match[12].trim(), display: true });
+    else if (match[13] !== undefined) result.push({ type: "math", latex: match[13], display: false });
+    else result.push({ type: "break" });
+
+    INLINE.lastIndex = resume;
+  }
+  pushText(text.slice(cursor));
+  return result;
+}
+
+function startsBlock(line: string) {
+  return FENCE.test(line) || HEADING.test(line) || QUOTE.test(line) || BULLET.test(line) || NUMBERED.test(line);
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      for (i++; i < lines.length && !FENCE.test(lines[i]); i++) body.push(lines[i]);
+      i++; // the closing fence, if there is one
+      blocks.push({ type: "code", language: fence[1] || null, text: body.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) body.push(QUOTE.exec(lines[i])![1]);
+      blocks.push({ type: "blockquote", children: parseMarkdown(body.join("\n")) });
+      continue;
+    }
+
+    const ordered = NUMBERED.test(line);
+    if (ordered || BULLET.test(line)) {
+      const marker = ordered ? NUMBERED : BULLET;
+      const items: string[][] = [];
+      while (i < lines.length) {
+        const item = marker.exec(lines[i]);
+        if (item) {
+          items.push([item[1].trim()]);
+          i++;
+        } else if (lines[i].trim() && !startsBlock(lines[i])) {
+          items[items.length - 1].push(lines[i].trim());  // continuation of the item
+          i++;
+        } else if (!lines[i].trim()) {
+          // Blank lines between items do not end the list
+          let next = i;
+          while (next < lines.length && !lines[next].trim()) next++;
+          if (next < lines.length && marker.test(lines[next])) i = next;
+          else break;
+        } else {
+          break;
+        }
+      }
+      blocks.push({ type: "list", ordered, items: items.map((item) => parseInline(item.join("\n"))) });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    for (; i < lines.length && lines[i].trim() && !startsBlock(lines[i]); i++) paragraph.push(lines[i].trim());
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+  }
+
+  return blocks;
+}
+
+// How formulas come out as plain text: read as words, or as their LaTeX
+type MathText = (latex: string) => string;
+
+function inlineText(nodes: MarkdownInline[], mathText: MathText): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+        case "code":
+          return node.text;
+        case "strong":
+        case "emphasis":
+          return inlineText(node.children, mathText);
+        case "link":
+          return node.bare ? "" : inlineText(node.children, mathText);
+        case "image":
+          return node.alt;
+        case "math":
+          return mathText(node.latex);
+        case "break":
+          return "\n";
+      }
+    })
+    .join("");
+}
+
+function blocksText(blocks: MarkdownBlock[], mathText: MathText): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "paragraph":
+        case "heading":
+          return inlineText(block.children, mathText);
+        case "list":
+          return block.items.map((item) => inlineText(item, mathText)).join("\n");
+        case "blockquote":
+          return blocksText(block.children, mathText);
+        case "code":
+          return block.text;
+      }
+    })
+    .join("\n\n");
+}
+
+// What the text says without its markup, for reading aloud and captions.
+// Bare URLs are left out: nobody wants to hear one spelled out. Formulas are
+// read as words ("E equals mc squared"), except for search, which asks for
+// their LaTeX so that typing "mc^2" finds them.
+export function markdownToPlainText(source: string, { math = "words" }: { math?: "words" | "latex" } = {}) {
+  const mathText: MathText = math === "latex" ? (latex) => latex : mathToWords;
+  return blocksText(parseMarkdown(source), mathText).replace(/[ \t]+\n/g, "\n").trim();
+}
+
+function inlineNodes(source: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  const visitInline = (inline: MarkdownInline[]) => inline.forEach((node) => {
+    nodes.push(node);
+    if ("children" in node) visitInline(node.children);
+  });
+  const visitBlocks = (blocks: MarkdownBlock[]) => blocks.forEach((block) => {
+    if (block.type === "list") block.items.forEach(visitInline);
+    else if (block.type === "blockquote") visitBlocks(block.children);
+    else if (block.type !== "code") visitInline(block.children);
+  });
+  visitBlocks(parseMarkdown(source));
+  return nodes;
+}
+
+// Every image a text shows, in order, for asset checks
+export function markdownImages(source: string): string[] {
+  return inlineNodes(source).flatMap((node) => (node.type === "image" ? [node.src] : []));
+}
+
+// Every formula in a text, in order, for lint-deck
+export function markdownMath(source: string): string[] {
+  return inlineNodes(source).flatMap((node) => (node.type === "math" ? [node.latex] : []));
+}
@@ -0,0 +1,134 @@
+// LaTeX for math widgets and $...$ in prose and notes, typeset by KaTeX.
+// KaTeX escapes what it is given and, without its "trust" option, drops
+// \href, \url and the commands that emit raw HTML, so its markup is safe to
+// insert. No DOM is needed, so lint-deck checks formulas with it too.
+import katex from "katex";
+
+export type RenderedMath = { html: string; error: null } | { html: null; error: string };
+
+// Decks show the same few formulas over and over (preview, drawer, presenter)
+const rendered = new Map<string, RenderedMath>();
+
+export function renderMath(latex: string, display = false): RenderedMath {
+  const key = `${display ? "display" : "inline"}:${latex}`;
+  const cached = rendered.get(key);
+  if (cached) return cached;
+
+  let result: RenderedMath;
+  try {
+    result = { html: katex.renderToString(latex, { displayMode: display, throwOnError: true, output: "htmlAndMathml" }), error: null };
+  } catch (error) {
+    result = { html: null, error: error instanceof katex.ParseError ? error.message.replace(/^KaTeX parse error: /, "") : String(error) };
+  }
+  rendered.set(key, result);
+  return result;
+}
+
+// Why a formula cannot be typeset, or null when it can
+export function mathError(latex: string) {
+  return renderMath(latex).error;
+}
+
+// Commands read as something other than their name
+const COMMAND_WORDS: Record<string, string> = {
+  times: "times", cdot: "times", div: "divided by", pm: "plus or minus", mp: "minus or plus",
+  approx: "is approximately", sim: "is of the order of", propto: "is proportional to",
+  neq: "is not equal to", ne: "is not equal to", equiv: "is equivalent to",
+  le: "is less than or equal to", leq: "is less than or equal to", ll: "is much less than",
+  ge: "is greater than or equal to", geq: "is greater than or equal to", gg: "is much greater than",
+  to: "to", rightarrow: "goes to", infty: "infinity", partial: "partial", nabla: "nabla",
+  hbar: "h bar", ell: "l", degree: "degrees", circ: "degrees", prime: "prime", ldots: "and so on", cdots: "and so on",
+  varepsilon: "epsilon", vartheta: "theta", varphi: "phi", varrho: "rho", varsigma: "sigma",
+};
+
+const SYMBOL_WORDS: Record<string, string> = {
+  "=": "equals", "+": "plus", "-": "minus", "<": "is less than", ">": "is greater than",
+  "/": "over", "!": "factorial", "'": "prime",
+};
+
+// Commands that only change how their argument looks
+const STYLE_COMMANDS = new Set(["mathrm", "mathbf", "mathit", "mathsf", "mathcal", "mathbb", "boldsymbol", "text", "textrm", "operatorname", "vec", "hat", "bar", "overline", "tilde", "dot", "ddot"]);
+
+const BIG_OPERATORS: Record<string, string> = { sum: "the sum", prod: "the product", int: "the integral", oint: "the integral" };
+
+// A rough reading of a formula for speech: "\frac{q_1 q_2}{r^2}" becomes
+// "q 1 q 2 over r squared". Greek letters and functions are read by name;
+// spacing, delimiters and anything unknown is left out.
+export function mathToWords(latex: string): string {
+  let i = 0;
+  const words: string[] = [];
+
+  const command = () => {
+    const match = /^\\([a-zA-Z]+|.)/.exec(latex.slice(i));
+    i += match ? match[0].length : 1;
+    return match?.[1] ?? "";
+  };
+  // The argument of a command, ^ or _: a {group}, a command or one character
+  const argument = (): string => {
+    while (latex[i] === " ") i++;
+    if (latex[i] === "{") {
+      const start = ++i;
+      for (let depth = 1; i < latex.length; i++) {
+        if (latex[i] === "{") depth++;
+        else if (latex[i] === "}" && --depth === 0) break;
+      }
+      return latex.slice(start, i++);
+    }
+    if (latex[i] === "\\") return `\\${command()}`;
+    return latex[i++] ?? "";
+  };
+  const power = (exponent: string) => {
+    const spoken = mathToWords(exponent);
+    return spoken === "2" ? "squared" : spoken === "3" ? "cubed" : `to the power of ${spoken}`;
+  };
+
+  while (i < latex.length) {
+    const c = latex[i];
+    if (c === "\\") {
+      const name = command();
+      if (name === "frac" || name === "dfrac" || name === "tfrac") {
+        const numerator = argument();
+        words.push(mathToWords(numerator), "over", mathToWords(argument()));
+      } else if (name === "sqrt") {
+        const index = latex[i] === "[" ? /^\[([^\]]*)\]/.exec(latex.slice(i)) : null;
+        if (index) i += index[0].length;
+        const root = !index ? "the square root of" : index[1].trim() === "3" ? "the cube root of" : `the ${mathToWords(index[1])} root of`;
+        words.push(root, mathToWords(argument()));
+      } else if (name in BIG_OPERATORS) {
+        words.push(BIG_OPERATORS[name]);
+        if (latex[i] === "_") {
+          i++;
+          words.push("from", mathToWords(argument()));
+        }
+        if (latex[i] === "^") {
+          i++;
+          words.push("to", mathToWords(argument()));
+        }
+        words.push("of");
+      } else if (STYLE_COMMANDS.has(name)) {
+        words.push(mathToWords(argument()));
+      } else if (name in COMMAND_WORDS) {
+        words.push(COMMAND_WORDS[name]);
+      } else if (/^[a-zA-Z]+$/.test(name) && name !== "left" && name !== "right" && name !== "quad" && name !== "qquad") {
+        words.push(name);
+      }
+    } else if (c === "^") {
+      i++;
+      words.push(power(argument()));
+    } else if (c === "_") {
+      i++;
+      words.push(mathToWords(argument()));
+    } else if (c === "{") {
+      words.push(mathToWords(argument()));
+    } else if (c in SYMBOL_WORDS) {
+      words.push(SYMBOL_WORDS[c]);
+      i++;
+    } else {
+      const run = /^[A-Za-z0-9.]+/.exec(latex.slice(i));
+      if (run) words.push(run[0]);
+      i += run ? run[0].length : 1;
+    }
+  }
+
+  return words.join(" ").replace(/\s+/g, " ").trim();
+}
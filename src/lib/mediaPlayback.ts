@@ -0,0 +1,98 @@
+// Local video and audio widgets. Every player on screen (the 3D preview and
+// the drawer) registers here, so trim times are kept the same way for both,
+// only one of them plays at a time, and the keymap and the presenter window
+// can play and pause them without knowing where they are.
+import type { Widget } from "../types";
+
+export type MediaTrim = {
+  start: number;                    // seconds
+  end: number | null;               // null plays to the end of the file
+};
+
+type Player = {
+  element: HTMLMediaElement;
+  nodeId: string;
+  index: number;
+  inDrawer: boolean;
+};
+
+const players: Player[] = [];
+
+export function trimOf(widget: Pick<Widget, "start" | "end">): MediaTrim {
+  const start = Math.max(0, widget.start ?? 0);
+  const end = widget.end !== undefined && widget.end > start ? widget.end : null;
+  return { start, end };
+}
+
+// The file URL with a media fragment, so browsers show the first frame of
+// the trimmed part (and not of the whole file) before it plays
+export function trimmedUrl(url: string, trim: MediaTrim) {
+  if (trim.start === 0 && trim.end === null) return url;
+  return `${url}#t=${trim.start}${trim.end === null ? "" : `,${trim.end}`}`;
+}
+
+// Autoplay can still be refused before the page has had a click or key press
+export function playMedia(element: HTMLMediaElement) {
+  element.play().catch(() => {});
+}
+
+// Adds a player and returns the function that removes it. A drawer player
+// takes over from the preview of the same widget, where it had got to.
+export function registerMediaPlayer(
+  element: HTMLMediaElement,
+  widget: { nodeId: string; index: number; trim: MediaTrim; inDrawer: boolean }
+): () => void {
+  const { trim } = widget;
+  const player: Player = { element, nodeId: widget.nodeId, index: widget.index, inDrawer: widget.inDrawer };
+
+  const clampToTrim = () => {
+    if (element.currentTime < trim.start) element.currentTime = trim.start;
+  };
+  const onPlay = () => {
+    if (trim.end !== null && element.currentTime >= trim.end) element.currentTime = trim.start;
+    clampToTrim();
+    players.forEach((other) => other !== player && other.element.pause());
+  };
+  const onTimeUpdate = () => {
+    if (trim.end !== null && element.currentTime >= trim.end) {
+      element.pause();
+      element.currentTime = trim.end;
+    }
+  };
+
+  element.addEventListener("loadedmetadata", clampToTrim);
+  element.addEventListener("play", onPlay);
+  element.addEventListener("timeupdate", onTimeUpdate);
+
+  if (player.inDrawer) {
+    const preview = players.find((other) => other.nodeId === player.nodeId && other.index === player.index && !other.element.paused);
+    if (preview) {
+      element.currentTime = preview.element.currentTime;
+      playMedia(element);
+    }
+  }
+  players.push(player);
+
+  return () => {
+    element.removeEventListener("loadedmetadata", clampToTrim);
+    element.removeEventListener("play", onPlay);
+    element.removeEventListener("timeupdate", onTimeUpdate);
+    element.pause();
+    players.splice(players.indexOf(player), 1);
+  };
+}
+
+// Plays or pauses what the audience is looking at: the player in the drawer
+// if there is one, else the first on the focused node. False if there is none.
+export function toggleMedia(focusedNodeId: string | null) {
+  const target =
+    players.find((player) => player.inDrawer) ??
+    players
+      .filter((player) => player.nodeId === focusedNodeId)
+      .sort((a, b) => a.index - b.index)[0];
+  if (!target) return false;
+
+  if (target.element.paused) playMedia(target.element);
+  else target.element.pause();
+  return true;
+}
@@ -0,0 +1,26 @@
+import type { KnowledgeNode } from "../types";
+
+export const ROOT_NODE_ID = "root";
+
+// Nodes without an explicit "id" get one derived from their position in the
+// tree: the parent's id plus the child index, e.g. "root.2.0". Giving a node an
+// explicit id also anchors the generated ids of everything below it.
+export function resolveNodeId(node: KnowledgeNode, parentId: string | undefined, index: number): string {
+  if (node.id) return node.id;
+  return parentId === undefined ? ROOT_NODE_ID : `${parentId}.${index}`;
+}
+
+// Returns a copy of the tree where every node carries an id. Components
+// downstream (focus, DFS, 2D and 3D views) key everything by these ids.
+export function assignNodeIds(root: KnowledgeNode): KnowledgeNode {
+  function visit(node: KnowledgeNode, parentId: string | undefined, index: number): KnowledgeNode {
+    const id = resolveNodeId(node, parentId, index);
+    return {
+      ...node,
+      id,
+      children: node.children?.map((child, i) => visit(child, id, i)),
+    };
+  }
+
+  return visit(root, undefined, 0);
+}
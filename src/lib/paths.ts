@@ -0,0 +1,65 @@
+import type { DeckPath, KnowledgeNode } from "../types";
+
+// An ordering of nodes the Next/Previous buttons step through. Custom paths
+// may skip branches or come back to a node more than once.
+export type PresentationPath = {
+  id: string;
+  name: string;
+  description?: string;
+  nodeIds: string[];
+};
+
+export const DFS_PATH_ID = "dfs";
+export const BFS_PATH_ID = "bfs";
+export const BUILT_IN_PATH_IDS = [DFS_PATH_ID, BFS_PATH_ID];
+
+// Expects a tree whose nodes already carry ids (see assignNodeIds)
+export function createDfsTraversal(data: KnowledgeNode): string[] {
+  const result: string[] = [];
+  const stack: KnowledgeNode[] = [data];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    result.push(node.id);
+
+    if (node.children) {
+      // Add children in reverse order so we visit them in the correct order
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push(node.children[i]);
+      }
+    }
+  }
+
+  return result;
+}
+
+// Level by level: the overview first, details later
+export function createBfsTraversal(data: KnowledgeNode): string[] {
+  const result: string[] = [];
+  const queue: KnowledgeNode[] = [data];
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    result.push(node.id);
+    node.children?.forEach(child => queue.push(child));
+  }
+
+  return result;
+}
+
+// Built-in orderings first, then the deck's own paths in the order declared.
+// Custom paths are identified by their name.
+export function buildPresentationPaths(data: KnowledgeNode, deckPaths: DeckPath[] = []): PresentationPath[] {
+  return [
+    { id: DFS_PATH_ID, name: "Depth-first", description: "Every node, one branch at a time", nodeIds: createDfsTraversal(data) },
+    { id: BFS_PATH_ID, name: "Breadth-first", description: "Every node, one level at a time", nodeIds: createBfsTraversal(data) },
+    ...deckPaths.map(path => ({ id: path.name, name: path.name, description: path.description, nodeIds: path.nodes })),
+  ];
+}
+
+// Where a node sits in a path. Paths may visit a node twice, so prefer the
+// first visit from the current position on and wrap around otherwise.
+export function findPathIndex(nodeIds: string[], id: string, fromIndex = 0): number {
+  const after = nodeIds.findIndex((nodeId, index) => index >= fromIndex && nodeId === id);
+  return after !== -1 ? after : nodeIds.indexOf(id);
+}
@@ -0,0 +1,59 @@
+import type { WidgetRef } from "../types";
+
+// Messages between the audience window (/talk/:slug) and the presenter
+// window (/talk/:slug/presenter). The audience window owns the talk state;
+// the presenter window sends commands and renders whatever state comes back.
+
+export type AudienceState = {
+  focusedNodeId: string | null;
+  nextNodeId: string | null;
+  activePathId: string;
+  paths: { id: string; name: string }[];
+  position: number;                 // 1-based position in the active path, 0 before the start
+  pathLength: number;
+  openWidget: WidgetRef | null;     // widget shown in the drawer, null when it is closed
+};
+
+export type PresenterCommand =
+  | { type: "next" }
+  | { type: "previous" }
+  | { type: "first" }
+  | { type: "last" }
+  | { type: "focus"; nodeId: string }
+  | { type: "open-widget"; widget: WidgetRef }
+  | { type: "close-widget" }
+  | { type: "play-media" }          // play or pause local video or audio; see lib/mediaPlayback
+  | { type: "set-path"; pathId: string };
+
+export type PresenterMessage =
+  | { kind: "hello" }               // presenter opened; the audience answers with its state
+  | { kind: "bye" }                 // presenter closed
+  | { kind: "command"; command: PresenterCommand }
+  | { kind: "state"; state: AudienceState }
+  | { kind: "thumbnail"; dataUrl: string };
+
+export type PresenterChannel = {
+  post: (message: PresenterMessage) => void;
+  subscribe: (handler: (message: PresenterMessage) => void) => () => void;
+  close: () => void;
+};
+
+// One channel per deck, so two talks open side by side don't drive each other.
+// Browsers without BroadcastChannel get a channel that goes nowhere.
+export function openPresenterChannel(slug: string): PresenterChannel {
+  if (typeof BroadcastChannel === "undefined") {
+    return { post: () => {}, subscribe: () => () => {}, close: () => {} };
+  }
+
+  const channel = new BroadcastChannel(`talk-tree:${slug}`);
+
+  return {
+    post: (message) => channel.postMessage(message),
+    subscribe: (handler) => {
+      const listener = (event: MessageEvent<PresenterMessage>) => handler(event.data);
+      channel.addEventListener("message", listener);
+      return () => channel.removeEventListener("message", listener);
+    },
+    close: () => channel.close(),
+  };
+}
@@ -0,0 +1,21 @@
+// Deterministic stand-ins for Math.random, so anything derived from a deck
+// (layout jitter, node shapes) comes out the same on every load.
+
+// 32-bit string hash (Java's String.hashCode)
+export function hashString(value: string): number {
+  return value.split('').reduce((a, b) => {
+    a = ((a << 5) - a) + b.charCodeAt(0);
+    return a & a;
+  }, 0);
+}
+
+// mulberry32: a small seeded generator returning numbers in [0, 1)
+export function seededRandom(seed: string | number): () => number {
+  let state = typeof seed === 'number' ? seed : hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
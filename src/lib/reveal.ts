@@ -0,0 +1,17 @@
+// Progressive reveal keeps the parts of the tree the talk has not reached
+// yet out of sight, so the audience discovers its structure as it goes.
+//   off   - everything is shown from the start
+//   hide  - unvisited nodes are not drawn at all
+//   ghost - unvisited nodes are drawn faintly, without labels
+export type RevealMode = "off" | "hide" | "ghost";
+
+export const revealModes = ["off", "hide", "ghost"] as const satisfies readonly RevealMode[];
+
+export const revealModeLabels: Record<RevealMode, string> = {
+  off: "Show all",
+  hide: "Reveal: hide",
+  ghost: "Reveal: ghost",
+};
+
+// How long a newly reached node takes to grow out of its parent
+export const REVEAL_GROW_MS = 700;
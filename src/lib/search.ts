@@ -0,0 +1,171 @@
+import type { KnowledgeNode } from "../types";
+import { walkTree } from "./layouts/tree";
+import { markdownToPlainText } from "./markdown";
+
+// Full-text search over a deck: node labels and prose, and widget titles,
+// subtitles and notes. Matches are ranked so that exact hits in short,
+// prominent fields (a label, a widget title) come before fuzzy hits buried
+// in prose.
+
+export type SearchField = "label" | "prose" | "title" | "subtitle" | "notes";
+
+export type SearchEntry = {
+  nodeId: string;
+  widgetIndex: number | null;       // null for the node itself
+  title: string;                    // what the result is called in the list
+  nodeLabel: string;
+  fields: { field: SearchField; text: string }[];
+};
+
+export type SearchSnippet = {
+  field: SearchField;
+  text: string;
+  highlight: [number, number];      // [start, end) of the match within text
+};
+
+export type SearchResult = {
+  entry: SearchEntry;
+  score: number;
+  snippet: SearchSnippet;
+};
+
+const FIELD_BONUS: Record<SearchField, number> = {
+  label: 30,
+  title: 20,
+  subtitle: 10,
+  notes: 0,
+  prose: 0,
+};
+
+const SNIPPET_CONTEXT = 40;
+const MAX_FUZZY_SPREAD = 3;
+
+// Prose and notes are indexed as plain text, so snippets show no Markdown;
+// formulas keep their LaTeX, which is what people type to find them
+export function buildSearchIndex(root: KnowledgeNode): SearchEntry[] {
+  const entries: SearchEntry[] = [];
+  walkTree(root, (node) => {
+    entries.push({
+      nodeId: node.id,
+      widgetIndex: null,
+      title: node.node,
+      nodeLabel: node.node,
+      fields: [
+        { field: "label" as const, text: node.node },
+        { field: "prose" as const, text: markdownToPlainText(node.prose ?? "", { math: "latex" }) },
+      ].filter(f => f.text),
+    });
+    node.widgets?.forEach((widget, index) => {
+      entries.push({
+        nodeId: node.id,
+        widgetIndex: index,
+        title: widget.title || widget.name,
+        nodeLabel: node.node,
+        fields: [
+          { field: "title" as const, text: widget.title ?? "" },
+          { field: "subtitle" as const, text: widget.subtitle ?? "" },
+          { field: "notes" as const, text: markdownToPlainText(widget.notes ?? "", { math: "latex" }) },
+        ].filter(f => f.text),
+      });
+    });
+  });
+  return entries;
+}
+
+type FieldMatch = { score: number; start: number; end: number };
+
+// Characters of the query in order, as close together as possible; the
+// score drops with the span they are spread over. Letters scattered wider
+// than MAX_FUZZY_SPREAD times the query are a coincidence, not a typo.
+function fuzzyMatch(text: string, query: string): FieldMatch | null {
+  const maxSpan = query.length * MAX_FUZZY_SPREAD;
+  let best: FieldMatch | null = null;
+  for (let start = text.indexOf(query[0]); start !== -1; start = text.indexOf(query[0], start + 1)) {
+    let position = start;
+    for (let i = 1; i < query.length && position !== -1; i++) {
+      position = text.indexOf(query[i], position + 1);
+    }
+    if (position === -1) break;
+    const span = position - start + 1;
+    if (span > maxSpan) continue;
+    const score = 40 * (query.length / span);
+    if (!best || score > best.score) best = { score, start, end: position + 1 };
+  }
+  return best;
+}
+
+function isWordStart(text: string, index: number) {
+  return index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1]);
+}
+
+// First place the query starts a word of the text, or -1
+function wordStartIndex(text: string, query: string) {
+  for (let index = text.indexOf(query); index !== -1; index = text.indexOf(query, index + 1)) {
+    if (isWordStart(text, index)) return index;
+  }
+  return -1;
+}
+
+// Strict matching only takes the query at the start of a word (all of its
+// words, for a multi-word query) and never guesses at typos
+function matchField(text: string, query: string, strict: boolean): FieldMatch | null {
+  const haystack = text.toLowerCase();
+  const find = strict ? wordStartIndex : (within: string, part: string) => within.indexOf(part);
+  const index = find(haystack, query);
+  if (index !== -1) {
+    const score = (isWordStart(haystack, index) ? 100 : 80) + (haystack === query ? 20 : 0);
+    return { score, start: index, end: index + query.length };
+  }
+
+  // Every word of a multi-word query somewhere in the text
+  const words = query.split(/\s+/).filter(Boolean);
+  if (words.length > 1) {
+    const positions = words.map(word => find(haystack, word));
+    if (positions.every(position => position !== -1)) {
+      const first = positions.indexOf(Math.min(...positions));
+      return { score: 60, start: positions[first], end: positions[first] + words[first].length };
+    }
+  }
+
+  return query.length > 1 && !strict ? fuzzyMatch(haystack, query) : null;
+}
+
+function makeSnippet(field: SearchField, text: string, match: FieldMatch): SearchSnippet {
+  const flatten = (part: string) => part.replace(/\s+/g, " ");
+  const from = Math.max(0, match.start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, match.end + SNIPPET_CONTEXT);
+  const before = `${from > 0 ? "…" : ""}${flatten(text.slice(from, match.start))}`;
+  const matched = flatten(text.slice(match.start, match.end));
+  const after = `${flatten(text.slice(match.end, to))}${to < text.length ? "…" : ""}`;
+  return {
+    field,
+    text: before + matched + after,
+    highlight: [before.length, before.length + matched.length],
+  };
+}
+
+export type SearchOptions = {
+  limit?: number;
+  strict?: boolean;                 // whole words or word prefixes only, no fuzzy matches
+};
+
+export function searchDeck(index: SearchEntry[], rawQuery: string, { limit = 30, strict = false }: SearchOptions = {}): SearchResult[] {
+  const query = rawQuery.trim().toLowerCase();
+  if (!query) return [];
+
+  const results: SearchResult[] = [];
+  for (const entry of index) {
+    let best: { score: number; field: SearchField; text: string; match: FieldMatch } | null = null;
+    for (const { field, text } of entry.fields) {
+      const match = matchField(text, query, strict);
+      if (!match) continue;
+      const score = match.score + FIELD_BONUS[field];
+      if (!best || score > best.score) best = { score, field, text, match };
+    }
+    if (best) {
+      results.push({ entry, score: best.score, snippet: makeSnippet(best.field, best.text, best.match) });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,254 @@
+// Promise-based wrapper around the Web Speech API, for code that needs to
+// know when reading has finished (e.g. the narrated tour). It also tracks
+// which word is being read, for captions. Voice and delivery come from
+// SpeechSettings (see SpeechContext for where they are kept). Recorded
+// narration (an "audio" file on a node or widget) goes through here too, so
+// stopping, pausing and captions work the same for both.
+import type { AudioCaption } from "../types";
+
+export type SpeechSettings = {
+  voiceURI: string | null;          // null picks the browser's voice for `lang`
+  lang: string | null;              // BCP 47 tag, e.g. "en-GB"; null for the page default
+  rate: number;                     // 0.5..2
+  pitch: number;                    // 0..2
+  volume: number;                   // 0..1
+};
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voiceURI: null,
+  lang: null,
+  rate: 0.95,
+  pitch: 1.0,
+  volume: 0.9,
+};
+
+const STORAGE_PREFIX = "talk-tree:speech:";
+
+// Settings the listener chose for a deck, if any; unreadable storage counts as none
+export function loadSpeechSettings(slug: string): Partial<SpeechSettings> {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + slug);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveSpeechSettings(slug: string, settings: Partial<SpeechSettings>) {
+  try {
+    if (Object.keys(settings).length === 0) localStorage.removeItem(STORAGE_PREFIX + slug);
+    else localStorage.setItem(STORAGE_PREFIX + slug, JSON.stringify(settings));
+  } catch {
+    // Private browsing or a full quota: the settings last until reload
+  }
+}
+
+// Installed voices by language ("en-US", "de-DE", …), languages and voices sorted
+export function groupVoicesByLanguage(voices: SpeechSynthesisVoice[]): [string, SpeechSynthesisVoice[]][] {
+  const groups = new Map<string, SpeechSynthesisVoice[]>();
+  for (const voice of voices) {
+    const lang = voice.lang.replace("_", "-");
+    groups.set(lang, [...(groups.get(lang) ?? []), voice]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([lang, list]) => [lang, list.sort((a, b) => a.name.localeCompare(b.name))]);
+}
+
+// The voice the settings ask for, by URI or failing that by name (decks
+// name voices, which is all a deck author can see), else null
+export function findVoice(voices: SpeechSynthesisVoice[], settings: SpeechSettings) {
+  if (!settings.voiceURI) return null;
+  return voices.find(voice => voice.voiceURI === settings.voiceURI)
+    ?? voices.find(voice => voice.name === settings.voiceURI)
+    ?? null;
+}
+
+export type SpeechProgress = {
+  text: string;
+  charIndex: number;                // start of the word being read
+  charLength: number;
+};
+
+// Where a recording is, for the scrubber
+export type RecordingPlayback = {
+  currentTime: number;
+  duration: number;
+  paused: boolean;
+};
+
+let progress: SpeechProgress | null = null;
+let playback: RecordingPlayback | null = null;
+let currentUtterance: SpeechSynthesisUtterance | null = null;
+let currentRecording: { audio: HTMLAudioElement; finish: () => void } | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+function setProgress(next: SpeechProgress | null) {
+  progress = next;
+  notify();
+}
+
+export function getSpeechProgress() {
+  return progress;
+}
+
+export function getRecordingPlayback() {
+  return playback;
+}
+
+// Called on every change of progress or playback
+export function subscribeSpeech(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isSpeechSupported() {
+  return typeof window !== "undefined" && "speechSynthesis" in window;
+}
+
+// Not every browser reports the length of a word boundary
+function wordLengthAt(text: string, index: number) {
+  const match = /^[^\s]+/.exec(text.slice(index));
+  return match ? match[0].length : 0;
+}
+
+// Reads the text aloud and resolves once it has been read, or was cut off
+// by speechSynthesis.cancel() (browsers report that as an end or an error)
+export function speak(text: string, settings: SpeechSettings = DEFAULT_SPEECH_SETTINGS): Promise<void> {
+  if (!isSpeechSupported() || !text.trim()) return Promise.resolve();
+  currentRecording?.finish();
+
+  return new Promise(resolve => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    const voice = findVoice(speechSynthesis.getVoices(), settings);
+    if (voice) utterance.voice = voice;
+    if (voice || settings.lang) utterance.lang = voice?.lang ?? settings.lang!;
+    utterance.rate = settings.rate;
+    utterance.pitch = settings.pitch;
+    utterance.volume = settings.volume;
+
+    utterance.onstart = () => {
+      currentUtterance = utterance;
+      setProgress({ text, charIndex: 0, charLength: 0 });
+    };
+    utterance.onboundary = (event) => {
+      if (event.name !== "word" || currentUtterance !== utterance) return;
+      setProgress({ text, charIndex: event.charIndex, charLength: event.charLength || wordLengthAt(text, event.charIndex) });
+    };
+
+    // A cancelled utterance may report its end after the next one started
+    const finish = () => {
+      if (currentUtterance === utterance) {
+        currentUtterance = null;
+        setProgress(null);
+      }
+      resolve();
+    };
+    utterance.onend = finish;
+    utterance.onerror = finish;
+
+    speechSynthesis.speak(utterance);
+  });
+}
+
+// The text shown as captions for a recording, and where each caption line
+// starts in it. The prose is used when every line can be found in it in
+// order; otherwise the lines themselves make up the text.
+function captionTrack(prose: string, captions: AudioCaption[]) {
+  const offsets: number[] = [];
+  let cursor = 0;
+  for (const caption of captions) {
+    const index = prose.indexOf(caption.text, cursor);
+    if (index === -1) break;
+    offsets.push(index);
+    cursor = index + caption.text.length;
+  }
+  if (prose && offsets.length === captions.length) return { text: prose, offsets };
+
+  const lines = captions.map(caption => caption.text);
+  return {
+    text: lines.join(" "),
+    offsets: lines.map((_, i) => lines.slice(0, i).reduce((length, line) => length + line.length + 1, 0)),
+  };
+}
+
+// Without timing data the position is estimated from how much has played
+function estimateProgress(text: string, time: number, duration: number): SpeechProgress {
+  const position = Math.floor(text.length * Math.min(1, time / duration));
+  const wordStart = Math.max(0, text.lastIndexOf(" ", position) + 1);
+  return { text, charIndex: wordStart, charLength: wordLengthAt(text, wordStart) };
+}
+
+// Plays a recorded narration and resolves when it ends or is stopped
+export function playRecording(url: string, prose = "", captions?: AudioCaption[], volume = 1): Promise<void> {
+  stopSpeaking();
+
+  return new Promise(resolve => {
+    const audio = new Audio(url);
+    audio.volume = volume;
+    const track = captions?.length ? captionTrack(prose, captions) : null;
+
+    const update = () => {
+      if (currentRecording?.audio !== audio) return;
+      const duration = Number.isFinite(audio.duration) ? audio.duration : 0;
+      playback = { currentTime: audio.currentTime, duration, paused: audio.paused };
+
+      if (track) {
+        const line = captions!.reduce((found, caption, i) => (caption.start <= audio.currentTime ? i : found), 0);
+        setProgress({ text: track.text, charIndex: track.offsets[line], charLength: captions![line].text.length });
+      } else if (prose && duration > 0) {
+        setProgress(estimateProgress(prose, audio.currentTime, duration));
+      } else {
+        notify();
+      }
+    };
+
+    const finish = () => {
+      if (currentRecording?.audio === audio) {
+        currentRecording = null;
+        playback = null;
+        setProgress(null);
+      }
+      audio.pause();
+      resolve();
+    };
+
+    currentRecording = { audio, finish };
+    audio.ontimeupdate = update;
+    audio.onplay = update;
+    audio.onpause = update;
+    audio.onloadedmetadata = update;
+    audio.onended = finish;
+    audio.onerror = finish;
+    audio.play().catch(finish);
+  });
+}
+
+export function seekRecording(time: number) {
+  if (currentRecording) currentRecording.audio.currentTime = time;
+}
+
+// Stops whatever is being read or played; pending speak/playRecording promises resolve
+export function stopSpeaking() {
+  if (isSpeechSupported()) speechSynthesis.cancel();
+  currentRecording?.finish();
+}
+
+export function pauseSpeaking() {
+  if (isSpeechSupported()) speechSynthesis.pause();
+  currentRecording?.audio.pause();
+}
+
+// A recording that can no longer play (autoplay blocked, file unloaded) is
+// stopped, so its playRecording promise resolves and nothing stays "reading"
+export function resumeSpeaking() {
+  if (isSpeechSupported()) speechSynthesis.resume();
+  const recording = currentRecording;
+  recording?.audio.play().catch(recording.finish);
+}
@@ -0,0 +1,181 @@
+// What a widget shows. Decks can say so with "type"; older decks leave it out
+// and the type is inferred from the name and url, the way the 3D scene and
+// the drawer used to guess it. This module has no React in it so lint-deck
+// can use it too; the renderers for each type live in components/widgets.
+import type { Widget } from "../types";
+import type { LintRule, LintSeverity } from "./deckLint";
+import { isExternalUrl, linkInName } from "./assets";
+import { getYouTubeVideoId, isYouTubeHost } from "./youtube";
+import { CODE_EXTENSIONS, highlightSteps, parseLineRanges } from "./code";
+import { mathError } from "./math";
+
+export type WidgetTypeId = "image" | "youtube" | "website" | "video" | "audio" | "pdf" | "code" | "math" | "markdown";
+
+// What a type's validation gets to work with (see checkWidget in deckLint)
+export type WidgetCheck = {
+  assetExists: (path: string) => boolean;
+  report: (severity: LintSeverity, rule: LintRule, field: string, message: string) => void;
+};
+
+export type WidgetTypeDefinition = {
+  id: WidgetTypeId;
+  name: string;
+  extensions: string[];             // files of this type, for inference and lint
+  validate?: (widget: Widget, check: WidgetCheck) => void;
+};
+
+function extensionOf(path: string) {
+  const match = /\.([a-z0-9]+)$/i.exec(path.split(/[?#]/)[0]);
+  return match ? match[1].toLowerCase() : null;
+}
+
+// The page or file a widget is about: its url when it has one, else its name
+// (without a folder put in front of a link)
+export function widgetSource(widget: Widget) {
+  return widget.url ?? linkInName(widget.name);
+}
+
+// Types shown from a file. A file with another extension was probably given
+// the wrong type.
+function fileType(id: WidgetTypeId, name: string, extensions: string[]): WidgetTypeDefinition {
+  return {
+    id,
+    name,
+    extensions,
+    validate: (widget, check) => {
+      const extension = extensionOf(widget.name);
+      if (extension && !isExternalUrl(widget.name) && !extensions.includes(extension)) {
+        check.report("warning", "widget-type", "name", `"${widget.name}" does not look like a ${name.toLowerCase()} file`);
+      }
+    },
+  };
+}
+
+// Video and audio can also be trimmed to a part of the file
+function mediaType(id: WidgetTypeId, name: string, extensions: string[]): WidgetTypeDefinition {
+  const file = fileType(id, name, extensions);
+  return {
+    ...file,
+    validate: (widget, check) => {
+      file.validate!(widget, check);
+      if (widget.start !== undefined && widget.end !== undefined && widget.end <= widget.start) {
+        check.report("error", "media-trim", "end", `"end" (${widget.end}s) must come after "start" (${widget.start}s)`);
+      }
+    },
+  };
+}
+
+// Fields only video and audio widgets read
+export const MEDIA_WIDGET_FIELDS = ["start", "end", "autoplay"] as const;
+
+const image = fileType("image", "Image", ["png", "jpg", "jpeg", "gif", "bmp", "webp", "svg"]);
+const video = mediaType("video", "Video", ["mp4", "webm", "mov", "m4v"]);
+const audio = mediaType("audio", "Audio", ["mp3", "ogg", "wav", "m4a"]);
+const pdf = fileType("pdf", "PDF", ["pdf"]);
+
+const youtube: WidgetTypeDefinition = {
+  id: "youtube",
+  name: "YouTube video",
+  extensions: [],
+  validate: (widget, check) => {
+    const source = widgetSource(widget);
+    const field = widget.url ? "url" : "name";
+    if (!isYouTubeHost(source)) {
+      check.report("error", "youtube-id", field, `"${source}" is not a YouTube link`);
+    } else if (!getYouTubeVideoId(source)) {
+      check.report("error", "youtube-id", field, `Cannot find a YouTube video id in "${source}"`);
+    }
+  },
+};
+
+const website: WidgetTypeDefinition = {
+  id: "website",
+  name: "Website",
+  extensions: [],
+  validate: (widget, check) => {
+    if (!isExternalUrl(widgetSource(widget))) {
+      check.report("error", "widget-type", widget.url ? "url" : "name", `A website widget needs an http(s) link in "url" or "name"`);
+    }
+  },
+};
+
+const code: WidgetTypeDefinition = {
+  id: "code",
+  name: "Code",
+  extensions: CODE_EXTENSIONS,
+  validate: (widget, check) => {
+    const lineCount = widget.source?.split(/\r\n?|\n/).length;
+    highlightSteps(widget).forEach((spec, i) => {
+      const lines = parseLineRanges(spec);
+      const field = Array.isArray(widget.highlight) ? `highlight[${i}]` : "highlight";
+      if (!lines) {
+        check.report("error", "code-highlight", field, `"${spec}" is not a line range such as "2-4, 7"`);
+      } else if (lineCount !== undefined && lines[lines.length - 1] > lineCount) {
+        check.report("warning", "code-highlight", field, `"${spec}" goes past the last line (${lineCount})`);
+      }
+    });
+  },
+};
+
+const math: WidgetTypeDefinition = {
+  id: "math",
+  name: "Math",
+  extensions: [],
+  validate: (widget, check) => {
+    if (widget.latex === undefined || !widget.latex.trim()) {
+      check.report("error", "widget-type", "latex", `A math widget needs its formula in "latex"`);
+      return;
+    }
+    const error = mathError(widget.latex);
+    if (error) check.report("error", "math-syntax", "latex", error);
+  },
+};
+
+// Text from "source" (the type has to be given, or inline source counts as
+// code) or from a .md file in the deck folder
+const markdown: WidgetTypeDefinition = {
+  id: "markdown",
+  name: "Markdown",
+  extensions: ["md", "markdown"],
+  validate: (widget, check) => {
+    if (widget.source !== undefined) {
+      if (!widget.source.trim()) check.report("error", "widget-type", "source", `A markdown widget's "source" is empty`);
+      return;
+    }
+    const extension = extensionOf(widget.name);
+    if (isExternalUrl(widget.name) || !extension || !markdown.extensions.includes(extension)) {
+      check.report("error", "widget-type", "name", `A markdown widget needs its text in "source" or a .md file in the deck folder in "name"`);
+    }
+  },
+};
+
+// Order matters for inference: the first type claiming a file's extension wins
+export const widgetTypes: WidgetTypeDefinition[] = [image, youtube, website, video, audio, pdf, code, math, markdown];
+
+export const widgetTypeIds = widgetTypes.map((type) => type.id) as [WidgetTypeId, ...WidgetTypeId[]];
+
+export function getWidgetTypeDefinition(id: WidgetTypeId): WidgetTypeDefinition {
+  return widgetTypes.find((type) => type.id === id) ?? image;
+}
+
+// The type of a widget without an explicit one. Inline source is code, a
+// formula is math and a url means the name is only its picture; otherwise
+// YouTube links, then known file extensions, then any other link counts as a
+// website and anything else as an image.
+export function inferWidgetType(widget: Widget): WidgetTypeId {
+  if (widget.source !== undefined) return "code";
+  if (widget.latex !== undefined) return "math";
+  if (widget.url) return widget.image_only ? "image" : "website";
+  const link = linkInName(widget.name);
+  if (isExternalUrl(link) && isYouTubeHost(link)) return "youtube";
+
+  const extension = extensionOf(widget.name);
+  const byExtension = extension && widgetTypes.find((type) => type.extensions.includes(extension));
+  if (byExtension) return byExtension.id;
+
+  return isExternalUrl(widget.name) ? "website" : "image";
+}
+
+export function widgetTypeOf(widget: Widget): WidgetTypeId {
+  return widget.type ?? inferWidgetType(widget);
+}
@@ -0,0 +1,19 @@
+// Helpers for YouTube widget URLs, shared by the 3D previews, the drawer and lint-deck
+
+export function isYouTubeUrl(url: string) {
+  return url.includes('youtube.com/watch') ||
+         url.includes('youtu.be/') ||
+         url.includes('youtube.com/embed/') ||
+         url.includes('youtube.com/v/');
+}
+
+// Anything on a YouTube host, including forms getYouTubeVideoId cannot parse (e.g. /shorts/)
+export function isYouTubeHost(url: string) {
+  return url.includes('youtube.com') || url.includes('youtu.be');
+}
+
+export function getYouTubeVideoId(url: string) {
+  const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
+  const match = url.match(regExp);
+  return (match && match[2].length === 11) ? match[2] : null;
+}
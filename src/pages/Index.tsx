@@ -1,82 +1,58 @@
-import { useState, MouseEvent, useEffect } from "react";
-import { ReactFlowProvider } from "@xyflow/react";
-import knowledgeData from "../../data/knowledge.json";
-import { Graph3D } from "@/components/Graph3D";
+import { Link } from "react-router-dom";
 import { SEO } from "@/components/SEO";
-import { KnowledgeNode } from "../types"; 
-import { KnowledgeTree } from "@/components/KnowledgeTree";
-import { FocusProvider, useFocus } from '@/contexts/FocusContext';
-import { NavigationButton } from "@/components/NavigationButton";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { listDecks } from "@/lib/decks";
 
-
-const particleData = knowledgeData.knowledgeTree as KnowledgeNode;
-
-function IndexContent() {
-  const { initializeDfsTraversal } = useFocus();
-  
-  useEffect(() => {
-    initializeDfsTraversal(particleData);
-  }, []);
-
-  const [spot, setSpot] = useState<{ x: number; y: number }>({ x: 50, y: 50 });
-
-  const onMove = (e: MouseEvent<HTMLDivElement>) => {
-    const rect = (e.currentTarget as HTMLDivElement).getBoundingClientRect();
-    const x = ((e.clientX - rect.left) / rect.width) * 100;
-    const y = ((e.clientY - rect.top) / rect.height) * 100;
-    setSpot({ x, y });
-  };
+const Index = () => {
+  const decks = listDecks();
 
   return (
     <>
       <SEO
-        title={`${knowledgeData["seo"].title}`}
-        description={`${knowledgeData["seo"].description}`}
+        title="Talk Tree Explorer"
+        description="Tree-based immersive presentations. Pick a talk to explore."
       />
       <header className="relative">
         <div className="absolute top-4 right-4 z-50">
           <ThemeToggle />
         </div>
-        <div
-          onMouseMove={onMove}
-          className="relative mx-auto max-w-5xl px-6 pt-8 pb-4"
-        >
-          <div
-            aria-hidden
-            className="pointer-events-none absolute inset-0 -z-10"
-            style={{
-              background: `radial-gradient(600px 300px at ${spot.x}% ${spot.y}%, hsl(var(--ring) / 0.12), transparent 60%)`,
-            }}
-          />
+        <div className="mx-auto max-w-5xl px-6 pt-8 pb-4">
           <h1 className="text-4xl md:text-5xl font-bold tracking-tight text-foreground">
-            {knowledgeData["seo"].title}
+            Talks
           </h1>
           <p className="mt-3 text-lg text-muted-foreground">
-          {knowledgeData["seo"].description}          </p>
+            {decks.length} deck{decks.length === 1 ? "" : "s"} found in data/
+          </p>
         </div>
       </header>
-      <main className="relative min-h-screen h-[calc(100vh+8rem)]">
-        <ReactFlowProvider>
-          <div className="absolute top-4 left-4 w-96 h-80 bg-background border border-border rounded-lg shadow-lg z-[95] overflow-hidden">
-            <KnowledgeTree data={particleData} />
-          </div>
-        </ReactFlowProvider>
-        <div className="w-full h-full">
-          <Graph3D data={particleData} />
-        </div>
-        <NavigationButton />
+      <main className="mx-auto max-w-5xl px-6 pb-12">
+        <ul className="grid gap-4 md:grid-cols-2">
+          {decks.map((entry) => (
+            <li key={entry.slug}>
+              <Link to={`/talk/${entry.slug}`} className="block h-full">
+                <Card className="h-full transition-colors hover:border-primary">
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="text-xl">{entry.title}</CardTitle>
+                      {entry.validation.success === false && (
+                        <Badge variant="destructive">
+                          {entry.validation.issues.length} issue{entry.validation.issues.length === 1 ? "" : "s"}
+                        </Badge>
+                      )}
+                    </div>
+                    <CardDescription>{entry.description}</CardDescription>
+                    <code className="text-xs text-muted-foreground">{entry.source}</code>
+                  </CardHeader>
+                </Card>
+              </Link>
+            </li>
+          ))}
+        </ul>
       </main>
     </>
   );
-}
-
-const Index = () => {
-  return (
-    <FocusProvider>
-      <IndexContent />
-    </FocusProvider>
-  );
 };
 
 export default Index;
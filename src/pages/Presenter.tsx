@@ -0,0 +1,289 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useHref, useParams } from "react-router-dom";
+import { ChevronLeft, ChevronRight, Pause, Play, RotateCcw } from "lucide-react";
+import { SEO } from "@/components/SEO";
+import { KeymapCheatSheet } from "@/components/KeymapCheatSheet";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { DeckErrorOverlay } from "@/components/DeckErrorOverlay";
+import { Markdown } from "@/components/Markdown";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AssetProvider } from "@/contexts/AssetContext";
+import { getDeck, type DeckEntry } from "@/lib/decks";
+import { markdownToPlainText } from "@/lib/markdown";
+import { assignNodeIds } from "@/lib/nodeIds";
+import { resolveKeymap } from "@/lib/keymap";
+import { useKeymap } from "@/hooks/use-keymap";
+import { openPresenterChannel, type AudienceState, type PresenterChannel, type PresenterCommand } from "@/lib/presenterChannel";
+import NotFound from "./NotFound";
+import type { Deck, KnowledgeNode } from "../types";
+
+const DEFAULT_TALK_MINUTES = 20;
+
+function formatDuration(totalSeconds: number) {
+  const sign = totalSeconds < 0 ? "-" : "";
+  const seconds = Math.abs(Math.round(totalSeconds));
+  const minutes = Math.floor(seconds / 60);
+  return `${sign}${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function collectNodes(node: KnowledgeNode, nodes = new Map<string, KnowledgeNode>()) {
+  nodes.set(node.id, node);
+  node.children?.forEach(child => collectNodes(child, nodes));
+  return nodes;
+}
+
+// Elapsed and remaining time; starts with the first Next unless started by hand
+function TalkTimer({ running, onRunningChange }: { running: boolean; onRunningChange: (running: boolean) => void }) {
+  const [elapsed, setElapsed] = useState(0);
+  const [minutes, setMinutes] = useState(DEFAULT_TALK_MINUTES);
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setElapsed(seconds => seconds + 1), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const remaining = minutes * 60 - elapsed;
+
+  return (
+    <div className="flex items-center gap-4">
+      <div className="text-right">
+        <div className="text-3xl font-mono font-semibold tabular-nums text-foreground">{formatDuration(elapsed)}</div>
+        <div className={`text-sm font-mono tabular-nums ${remaining < 0 ? "text-destructive" : "text-muted-foreground"}`}>
+          {formatDuration(remaining)} left
+        </div>
+      </div>
+      <div className="flex flex-col gap-1">
+        <div className="flex gap-1">
+          <Button variant="outline" size="icon" onClick={() => onRunningChange(!running)} aria-label={running ? "Pause timer" : "Start timer"}>
+            {running ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setElapsed(0)} aria-label="Reset timer">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </div>
+        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Input
+            type="number"
+            min={1}
+            value={minutes}
+            onChange={(e) => setMinutes(Math.max(1, Number(e.target.value) || DEFAULT_TALK_MINUTES))}
+            className="h-7 w-16 text-xs"
+          />
+          min
+        </label>
+      </div>
+    </div>
+  );
+}
+
+function PresenterView({ entry, deck }: { entry: DeckEntry; deck: Deck }) {
+  const root = useMemo(() => assignNodeIds(deck.knowledgeTree), [deck]);
+  const nodes = useMemo(() => collectNodes(root), [root]);
+  const audienceHref = useHref(`/talk/${entry.slug}`);
+  const channelRef = useRef<PresenterChannel | null>(null);
+  const [state, setState] = useState<AudienceState | null>(null);
+  const [thumbnail, setThumbnail] = useState<string | null>(null);
+  const [timerRunning, setTimerRunning] = useState(false);
+
+  useEffect(() => {
+    const channel = openPresenterChannel(entry.slug);
+    channelRef.current = channel;
+
+    const unsubscribe = channel.subscribe(message => {
+      if (message.kind === "state") setState(message.state);
+      if (message.kind === "thumbnail") setThumbnail(message.dataUrl);
+    });
+    channel.post({ kind: "hello" });
+
+    const sayBye = () => channel.post({ kind: "bye" });
+    window.addEventListener("beforeunload", sayBye);
+
+    return () => {
+      window.removeEventListener("beforeunload", sayBye);
+      sayBye();
+      unsubscribe();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [entry.slug]);
+
+  const send = (command: PresenterCommand) => {
+    channelRef.current?.post({ kind: "command", command });
+    if (command.type === "next" && !timerRunning) setTimerRunning(true);
+  };
+
+  const current = state?.focusedNodeId ? nodes.get(state.focusedNodeId) : undefined;
+  const next = state?.nextNodeId ? nodes.get(state.nextNodeId) : undefined;
+  const openWidget = state?.openWidget;
+
+  // The clicker usually talks to this window, so the same keys work here
+  const keymap = useMemo(() => resolveKeymap(deck.keymap), [deck.keymap]);
+  const [showKeymap, setShowKeymap] = useState(false);
+
+  const openNthWidget = (index: number) => {
+    if (current?.widgets?.[index]) send({ type: "open-widget", widget: { nodeId: current.id, index } });
+  };
+
+  useKeymap(keymap, {
+    next: () => send({ type: "next" }),
+    previous: () => send({ type: "previous" }),
+    first: () => send({ type: "first" }),
+    last: () => send({ type: "last" }),
+    openWidget: () => openNthWidget(0),
+    closeWidget: () => send({ type: "close-widget" }),
+    widgets: openNthWidget,
+    playMedia: () => send({ type: "play-media" }),
+    help: () => setShowKeymap(open => !open),
+  });
+
+  return (
+    <AssetProvider resolver={entry.assets} data={root}>
+      <SEO title={`Presenter · ${deck.seo.title}`} description={deck.seo.description} />
+      <header className="flex flex-wrap items-center justify-between gap-4 border-b border-border px-6 py-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-foreground">{deck.seo.title}</h1>
+          <p className="text-sm text-muted-foreground">
+            {state
+              ? `${state.position}/${state.pathLength} on ${state.paths.find(path => path.id === state.activePathId)?.name ?? state.activePathId}`
+              : "Waiting for the audience window…"}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <TalkTimer running={timerRunning} onRunningChange={setTimerRunning} />
+          <ThemeToggle />
+        </div>
+      </header>
+
+      {!state ? (
+        <main className="mx-auto max-w-xl px-6 py-16 text-center space-y-4">
+          <p className="text-muted-foreground">
+            The presenter view follows the talk open in another window of this browser.
+          </p>
+          <Button onClick={() => window.open(audienceHref, `audience-${entry.slug}`)}>Open audience window</Button>
+        </main>
+      ) : (
+        <main className="grid gap-6 p-6 lg:grid-cols-[2fr_1fr]">
+          <section className="space-y-6" aria-label="Current node">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-3xl">{current?.node ?? "Not started"}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {current?.prose ? (
+                  <Markdown source={current.prose} className="text-xl leading-relaxed text-foreground" />
+                ) : (
+                  <p className="text-muted-foreground">No prose for this node.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {current?.widgets && current.widgets.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Widgets</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-4">
+                    {current.widgets.map((widget, index) => {
+                      const isOpen = openWidget?.nodeId === current.id && openWidget.index === index;
+                      return (
+                        <li key={index} className={`rounded-md border p-3 ${isOpen ? "border-primary" : "border-border"}`}>
+                          <div className="flex items-start justify-between gap-3">
+                            <div className="min-w-0">
+                              <div className="font-medium text-foreground">{widget.title || widget.name}</div>
+                              {widget.subtitle && <div className="text-sm text-muted-foreground">{widget.subtitle}</div>}
+                            </div>
+                            <Button
+                              variant={isOpen ? "default" : "outline"}
+                              size="sm"
+                              onClick={() => send(isOpen
+                                ? { type: "close-widget" }
+                                : { type: "open-widget", widget: { nodeId: current.id, index } })}
+                            >
+                              {isOpen ? "Hide" : "Show"}
+                            </Button>
+                          </div>
+                          {widget.notes && (
+                            <Markdown source={widget.notes} className="mt-2 text-base text-foreground" />
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+          </section>
+
+          <aside className="space-y-6" aria-label="Audience view and next node">
+            <div className="overflow-hidden rounded-lg border border-border bg-card">
+              {thumbnail ? (
+                <img src={thumbnail} alt="What the audience sees" className="w-full" />
+              ) : (
+                <div className="flex aspect-video items-center justify-center text-sm text-muted-foreground">
+                  Waiting for a picture of the scene…
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button size="lg" variant="outline" onClick={() => send({ type: "previous" })} aria-label="Previous node">
+                <ChevronLeft className="h-5 w-5" />
+              </Button>
+              <Button size="lg" className="flex-1" onClick={() => send({ type: "next" })}>
+                Next
+                <ChevronRight className="h-5 w-5" />
+              </Button>
+            </div>
+
+            {state.paths.length > 1 && (
+              <Select value={state.activePathId} onValueChange={(pathId) => send({ type: "set-path", pathId })}>
+                <SelectTrigger aria-label="Presentation path">
+                  <SelectValue placeholder="Path" />
+                </SelectTrigger>
+                <SelectContent>
+                  {state.paths.map(path => (
+                    <SelectItem key={path.id} value={path.id}>{path.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm font-medium text-muted-foreground">Up next</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <div className="text-xl font-semibold text-foreground">{next?.node ?? "—"}</div>
+                {next?.prose && <p className="text-sm text-muted-foreground line-clamp-4">{markdownToPlainText(next.prose)}</p>}
+              </CardContent>
+            </Card>
+          </aside>
+        </main>
+      )}
+      <KeymapCheatSheet keymap={keymap} open={showKeymap} onOpenChange={setShowKeymap} />
+    </AssetProvider>
+  );
+}
+
+// Second-window companion to /talk/:slug for the speaker
+const Presenter = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const entry = getDeck(slug);
+
+  if (!entry) {
+    return <NotFound />;
+  }
+
+  if (entry.validation.success === false) {
+    return <DeckErrorOverlay issues={entry.validation.issues} source={entry.source} />;
+  }
+
+  return <PresenterView key={entry.slug} entry={entry} deck={entry.validation.deck} />;
+};
+
+export default Presenter;
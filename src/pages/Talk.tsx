@@ -0,0 +1,188 @@
+import { useState, MouseEvent, useEffect, useMemo } from "react";
+import { ReactFlowProvider } from "@xyflow/react";
+import { useHref, useParams } from "react-router-dom";
+import { Presentation, Search } from "lucide-react";
+import { Graph3D } from "@/components/Graph3D";
+import { SEO } from "@/components/SEO";
+import { KnowledgeTree } from "@/components/KnowledgeTree";
+import { FocusProvider, useFocus } from '@/contexts/FocusContext';
+import { NavigationButton } from "@/components/NavigationButton";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { Button } from "@/components/ui/button";
+import { DeckErrorOverlay } from "@/components/DeckErrorOverlay";
+import { UnresolvedAssetsNotice } from "@/components/UnresolvedAssetsNotice";
+import { AssetProvider } from "@/contexts/AssetContext";
+import { LayoutProvider, useLayout } from "@/contexts/LayoutContext";
+import { RevealProvider } from "@/contexts/RevealContext";
+import { SearchProvider } from "@/contexts/SearchContext";
+import { SpeechProvider } from "@/contexts/SpeechContext";
+import { getDeck, type DeckEntry } from "@/lib/decks";
+import { useAudienceSync } from "@/hooks/use-audience-sync";
+import { useKeymap } from "@/hooks/use-keymap";
+import { resolveKeymap } from "@/lib/keymap";
+import { toggleMedia } from "@/lib/mediaPlayback";
+import { KeymapCheatSheet } from "@/components/KeymapCheatSheet";
+import { SearchPalette } from "@/components/SearchPalette";
+import { SpeechCaptions } from "@/components/SpeechCaptions";
+import { assignNodeIds } from "@/lib/nodeIds";
+import NotFound from "./NotFound";
+import type { Deck, KnowledgeNode } from "../types";
+
+
+function TalkContent({ slug, deck, particleData }: { slug: string; deck: Deck; particleData: KnowledgeNode }) {
+  const {
+    initializeTraversal,
+    focusedNodeId,
+    focusNextNode,
+    focusPreviousNode,
+    focusTraversalIndex,
+    traversal,
+    openWidget,
+    closeWidget
+  } = useFocus();
+  const { getNode, visibleTree, revealNode } = useLayout();
+  const registerSceneCanvas = useAudienceSync(slug);
+  const presenterHref = useHref(`/talk/${slug}/presenter`);
+
+  const keymap = useMemo(() => resolveKeymap(deck.keymap), [deck.keymap]);
+  const [showKeymap, setShowKeymap] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+
+  const openNthWidget = (index: number) => {
+    const node = getNode(focusedNodeId);
+    if (node?.widgets?.[index]) openWidget(node.id, index);
+  };
+
+  // Moving to a node inside a collapsed subtree opens it up
+  useEffect(() => {
+    if (focusedNodeId) revealNode(focusedNodeId);
+  }, [focusedNodeId, revealNode]);
+
+  useKeymap(keymap, {
+    next: focusNextNode,
+    previous: focusPreviousNode,
+    first: () => focusTraversalIndex(0),
+    last: () => focusTraversalIndex(traversal.length - 1),
+    openWidget: () => openNthWidget(0),
+    closeWidget,
+    widgets: openNthWidget,
+    playMedia: () => toggleMedia(focusedNodeId),
+    search: () => setShowSearch(true),
+    help: () => setShowKeymap(open => !open),
+  });
+  
+  useEffect(() => {
+    initializeTraversal(particleData, deck.paths);
+  }, [particleData, deck.paths]);
+
+  const [spot, setSpot] = useState<{ x: number; y: number }>({ x: 50, y: 50 });
+
+  const onMove = (e: MouseEvent<HTMLDivElement>) => {
+    const rect = (e.currentTarget as HTMLDivElement).getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * 100;
+    const y = ((e.clientY - rect.top) / rect.height) * 100;
+    setSpot({ x, y });
+  };
+
+  return (
+    <>
+      <SEO
+        title={`${deck.seo.title}`}
+        description={`${deck.seo.description}`}
+      />
+      <header className="relative">
+        <div className="absolute top-4 right-4 z-50 flex items-center gap-4">
+          <UnresolvedAssetsNotice />
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            onClick={() => setShowSearch(true)}
+          >
+            <Search className="h-4 w-4" />
+            Search
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            onClick={() => window.open(presenterHref, `presenter-${slug}`, "popup,width=1200,height=800")}
+          >
+            <Presentation className="h-4 w-4" />
+            Presenter view
+          </Button>
+          <ThemeToggle />
+        </div>
+        <div
+          onMouseMove={onMove}
+          className="relative mx-auto max-w-5xl px-6 pt-8 pb-4"
+        >
+          <div
+            aria-hidden
+            className="pointer-events-none absolute inset-0 -z-10"
+            style={{
+              background: `radial-gradient(600px 300px at ${spot.x}% ${spot.y}%, hsl(var(--ring) / 0.12), transparent 60%)`,
+            }}
+          />
+          <h1 className="text-4xl md:text-5xl font-bold tracking-tight text-foreground">
+            {deck.seo.title}
+          </h1>
+          <p className="mt-3 text-lg text-muted-foreground">
+          {deck.seo.description}          </p>
+        </div>
+      </header>
+      <main className="relative min-h-screen h-[calc(100vh+8rem)]">
+        <ReactFlowProvider>
+          <div className="absolute top-4 left-4 w-96 h-80 bg-background border border-border rounded-lg shadow-lg z-[95] overflow-hidden">
+            <KnowledgeTree data={visibleTree} />
+          </div>
+        </ReactFlowProvider>
+        <div className="w-full h-full">
+          <Graph3D onCanvasCreated={registerSceneCanvas} />
+        </div>
+        <NavigationButton />
+        <SpeechCaptions />
+      </main>
+      <KeymapCheatSheet keymap={keymap} open={showKeymap} onOpenChange={setShowKeymap} />
+      <SearchPalette data={particleData} open={showSearch} onOpenChange={setShowSearch} />
+    </>
+  );
+}
+
+const Talk = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const entry = getDeck(slug);
+
+  if (!entry) {
+    return <NotFound />;
+  }
+
+  if (entry.validation.success === false) {
+    return <DeckErrorOverlay issues={entry.validation.issues} source={entry.source} />;
+  }
+
+  return <TalkDeck key={entry.slug} entry={entry} deck={entry.validation.deck} />;
+};
+
+// Keyed by slug so focus, traversal, layout and asset reports start fresh when switching talks
+function TalkDeck({ entry, deck }: { entry: DeckEntry; deck: Deck }) {
+  const particleData = useMemo(() => assignNodeIds(deck.knowledgeTree), [deck]);
+
+  return (
+    <AssetProvider resolver={entry.assets} data={particleData}>
+      <FocusProvider>
+        <LayoutProvider data={particleData} defaultLayout={deck.layout} expandDepth={deck.expandDepth}>
+          <RevealProvider data={particleData} defaultMode={deck.reveal}>
+            <SearchProvider data={particleData}>
+              <SpeechProvider slug={entry.slug} deckSpeech={deck.speech}>
+                <TalkContent slug={entry.slug} deck={deck} particleData={particleData} />
+              </SpeechProvider>
+            </SearchProvider>
+          </RevealProvider>
+        </LayoutProvider>
+      </FocusProvider>
+    </AssetProvider>
+  );
+}
+
+export default Talk;
@@ -1,15 +1,95 @@
 // types.ts (at project root or in src/types.ts)
+import type { LayoutEngineId } from "./lib/layouts/types";
+import type { Keymap } from "./lib/keymap";
+import type { RevealMode } from "./lib/reveal";
+import type { WidgetTypeId } from "./lib/widgetTypes";
+
+// A line of a recorded narration and the second it starts at
+export type AudioCaption = {
+  start: number;
+  text: string;
+};
+
 export type Widget = {
   name: string;
+  type?: WidgetTypeId;              // inferred from name and url when left out
   title?: string;
   subtitle?: string;
   notes: string;
-  [key: string]: any;
+  url?: string;
+  preview?: string;
+  image_only?: boolean;
+  prose?: string;
+  audio?: string;                   // recorded narration in the deck folder, played instead of speech synthesis
+  audioCaptions?: AudioCaption[];
+  // Code and Markdown widgets: the text inline, or else the file named by "name"
+  source?: string;
+  language?: string;                // e.g. "python"; from the file extension when left out
+  highlight?: string | string[];    // lines such as "2-4, 7"; a list is stepped through with Next
+  latex?: string;                   // math widgets: the formula, without $ delimiters
+  // Video and audio widgets: the part of the file to play, in seconds, and
+  // whether to start playing when the node is focused
+  start?: number;
+  end?: number;
+  autoplay?: boolean;
+};
+
+// Points at one widget of a node; used wherever a widget has to be named
+// outside the component that renders it (drawer, presenter window, URLs)
+export type WidgetRef = {
+  nodeId: string;
+  index: number;       // position in the node's widgets array
+};
+
+// One entry of the focus history kept while presenting
+export type FocusVisit = {
+  nodeId: string;
+  visitedAt: number;   // Date.now() when the node got focus
 };
 
 export type KnowledgeNode = {
   node: string;
+  id?: string;         // optional stable id; generated from the tree path when absent
   weight?: number;
+  prose?: string;
+  audio?: string;      // recorded narration, as for widgets
+  audioCaptions?: AudioCaption[];
   children?: KnowledgeNode[];
   widgets?: Widget[];
-};
\ No newline at end of file
+};
+
+export type DeckSeo = {
+  title: string;
+  description: string;
+  prose?: string;
+};
+
+// A named route through the tree, e.g. a 10-minute cut of a 40-minute talk
+export type DeckPath = {
+  name: string;
+  description?: string;
+  nodes: string[];     // node ids in presentation order; may repeat or skip nodes
+};
+
+// How the deck is read aloud unless the listener picks otherwise
+export type DeckSpeech = {
+  voice?: string;      // voice name (or voiceURI) as the browser lists it
+  lang?: string;       // e.g. "de-DE"; used when the voice is not installed
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+};
+
+// Shape of a whole deck file such as data/knowledge.json
+export type Deck = {
+  seo: DeckSeo;
+  pageTitle?: string;
+  pageDescription?: string;
+  layout?: LayoutEngineId;   // 3D layout the deck opens with; the control panel can switch it
+  paths?: DeckPath[];
+  expandDepth?: number;      // levels shown when the talk opens; deeper nodes start collapsed
+  reveal?: RevealMode;       // progressive reveal mode the talk opens in
+  keymap?: Partial<Keymap>;  // per-action key lists replacing the defaults in lib/keymap
+  speech?: DeckSpeech;
+  knowledgeTree: KnowledgeNode;
+};